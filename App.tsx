@@ -1,73 +1,211 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo, useReducer } from 'react';
 import { GameLayout } from './components/GameLayout';
 import { Button } from './components/Button';
 import { Typewriter } from './components/Typewriter';
-import { generateStorySegment, generateSceneImage } from './services/geminiService';
-import { GameTurn, Choice } from './types';
+import { Chronicle } from './components/Chronicle';
+import { SaveSlots } from './components/SaveSlots';
+import { AUTOSAVE_ID, SaveGame, SaveSummary, deleteSave, listSaves, loadSave, writeSave } from './services/saveService';
+import { DatabaseBlockedError } from './services/database';
+import { TurnErrorPanel } from './components/TurnErrorPanel';
+import { CustomActionInput } from './components/CustomActionInput';
+import { NarrationControls } from './components/NarrationControls';
+import { CharacterCreator } from './components/CharacterCreator';
+import { InventoryModal } from './components/InventoryModal';
+import { JournalModal } from './components/JournalModal';
+import { LanguagePicker } from './components/LanguagePicker';
+import { ArtStylePicker } from './components/ArtStylePicker';
+import { DifficultyPicker } from './components/DifficultyPicker';
+import { PartyPicker } from './components/PartyPicker';
+import { PartyPanel } from './components/PartyPanel';
+import { SessionModal } from './components/SessionModal';
+import { SessionGuestView } from './components/SessionGuestView';
+import { JoinRoomForm } from './components/JoinRoomForm';
+import { StoryMap } from './components/StoryMap';
+import { ENDING_STYLES } from './components/EndingIcon';
+import { DEFAULT_ARCHETYPES, successChance } from './services/character';
+import { StoryEngineError, isAborted } from './services/engineErrors';
+import { compressStoryMemory } from './services/storyMemory';
+import { countItems, effectiveAttributes } from './services/inventory';
+import { I18nContext, MESSAGES, detectLanguage, storeLanguage } from './services/i18n';
+import { ExportFormat, downloadStory } from './services/storyExport';
+import { activeHistory, newNodeId } from './services/storyTree';
+import { randomId } from './services/ids';
+import { CampaignError, parseCampaign } from './services/campaign';
+import { createEngineState, gameReducer } from './services/gameEngine';
+import { endingOf, runStats } from './services/endings';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_RULES } from './services/difficulty';
+import { countVotes, nextVoter } from './services/party';
+import { SessionConnection, SessionInfo, acceptRemoteChoice, applyRelayMessage, buildSnapshot, connectSession, loadSeat, storeSeat } from './services/session';
+import { DEFAULT_ART_STYLE, loadImagesEnabled, renderScene, storeImagesEnabled } from './services/sceneImages';
+import { applyReducedMotion, loadReducedMotion, storeReducedMotion } from './services/motion';
+import {
+  AUTO_ADVANCE_MS, Narrator, NarrationSettings, createNarrator, isNarrationSupported, loadNarrationSettings, pickVoice, spokenChoices,
+  storeNarrationSettings, voicesFor,
+} from './services/narration';
+import { Choice, Engines, Archetype, Character, Item, ItemAction, Language, Campaign, ArtStyle, Difficulty, PartyMode, RelayClientMessage, SessionRole } from './types';
 import { 
   Heart, 
   Backpack, 
   Swords, 
-  Skull, 
   History, 
   RefreshCw,
   Loader2,
+  ImageIcon,
+  Save,
+  Play,
+  Dices,
+  UserRound,
+  GitBranch,
+  Download,
+  ScrollText,
   X,
-  Box,
-  ImageIcon
+  Flag,
+  Target,
+  CheckCircle2,
+  ImageOff,
+  RotateCcw,
+  Volume2,
+  VolumeX,
+  Accessibility,
+  Skull,
+  Radio,
+  BookUser
 } from 'lucide-react';
 
-const INITIAL_HP = 100;
+// Four random themes from the language's pool
+const pickThemes = (language: Language) => [...MESSAGES[language].themes].sort(() => 0.5 - Math.random()).slice(0, 4);
 
-const THEME_POOL = [
-  'Fantasía Oscura', 'Cyberpunk 2077', 'Apocalipsis Zombie', 'Misterio Victoriano',
-  'Piratas del Espacio', 'Samurai Feudal', 'Terror Lovecraftiano', 'Western Mágico',
-  'Hackers de los 90', 'Mitología Griega', 'Superhéroes Realistas', 'Exploración Submarina',
-  'Steampunk', 'Supervivencia en Isla Desierta', 'Guerra de IAs', 'Vampiros Modernos'
-];
+interface AppProps {
+  engines: Engines;
+}
 
-const App: React.FC = () => {
-  // Application Modes
-  const [mode, setMode] = useState<'START' | 'PLAYING' | 'GAMEOVER'>('START');
-  
-  // Game State
-  const [theme, setTheme] = useState('');
+const App: React.FC<AppProps> = ({ engines }) => {
+  const [language, setLanguage] = useState<Language>(detectLanguage);
+  const t = MESSAGES[language];
+
+  // Game State: owned by the game engine reducer, the UI only sends it events
+  const [engineState, dispatch] = useReducer(gameReducer, undefined, createEngineState);
+  const { phase: mode, game, pending, failed, streamingText, drawing, votes } = engineState;
+  const { hp, inventory, tree: storyTree, memory, character, theme, party } = game;
+  const history = useMemo(() => activeHistory(storyTree), [storyTree]); // The path being played, the last turn is the current one
+  const currentTurn = history.length > 0 ? history[history.length - 1] : null;
+  const turnError = failed?.error ?? null; // Last turn failed, story did not advance
+
+  // Start screen
+  const [selectedTheme, setSelectedTheme] = useState('');
   const [customTheme, setCustomTheme] = useState('');
   const [suggestedThemes, setSuggestedThemes] = useState<string[]>([]);
-  const [hp, setHp] = useState(INITIAL_HP);
-  const [inventory, setInventory] = useState<string[]>([]);
-  const [currentTurn, setCurrentTurn] = useState<GameTurn | null>(null);
+  const [selectedCampaign, setSelectedCampaign] = useState<Campaign | null>(null); // Loaded campaign file, replaces the theme
+  const [campaignIssues, setCampaignIssues] = useState<string[]>([]); // Why the last campaign file was rejected
+  const [artStyle, setArtStyle] = useState<ArtStyle>(DEFAULT_ART_STYLE);
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+  const [partySize, setPartySize] = useState(1); // 1 plays solo
+  const [partyMode, setPartyMode] = useState<PartyMode>('rotation');
+  const [partyCharacters, setPartyCharacters] = useState<Character[]>([]); // Players created so far
+  const [imagesEnabled, setImagesEnabled] = useState(loadImagesEnabled); // Player setting, shared by every run
+  const [startStep, setStartStep] = useState<'THEME' | 'CHARACTER'>('THEME');
+  const [archetypes, setArchetypes] = useState<Archetype[] | null>(null);
   
   // Loading States
-  const [isStoryLoading, setIsStoryLoading] = useState(false); // Waiting for text JSON
-  const [isImageLoading, setIsImageLoading] = useState(false); // Waiting for image generation
+  const isStoryLoading = pending !== null; // Waiting for text JSON
+  const isPermadeath = DIFFICULTY_RULES[game.difficulty].permadeath; // No saves to fall back on, no rewinding
   const [isTypingComplete, setIsTypingComplete] = useState(false); // Text typewriter finished
   
   // UI State
   const [isInventoryOpen, setIsInventoryOpen] = useState(false);
+  const [isJournalOpen, setIsJournalOpen] = useState(false);
+  const [isChronicleOpen, setIsChronicleOpen] = useState(false);
+  const [isMapOpen, setIsMapOpen] = useState(false);
+  const [reducedMotion, setReducedMotion] = useState(loadReducedMotion); // No typewriter, no animations
+  const [isTypingSkipped, setIsTypingSkipped] = useState(false); // The player skipped the current text's animation
+  const [announcement, setAnnouncement] = useState(''); // Read by screen readers through the live region
+
+  // Narration
+  const [narration, setNarration] = useState<NarrationSettings>(loadNarrationSettings);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [narratedChars, setNarratedChars] = useState(Infinity); // How far the voice has read, the typewriter waits for it
+  const [isNarrationPaused, setIsNarrationPaused] = useState(false);
+  const narratorRef = useRef<Narrator | null>(null);
+
+  // Persistence
+  const [saves, setSaves] = useState<SaveSummary[]>([]);
+
+  // Networked session: the room this app hosts, or the one it joined as a guest
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const [isSessionOpen, setIsSessionOpen] = useState(false);
+  const sessionRef = useRef<SessionConnection | null>(null);
+  // Bumped for every new connection, so a replaced one can't touch the state
+  const sessionIdRef = useRef(0);
+  // The illustration the host's room holds, uploaded apart from the snapshots that name it
+  const [sharedImage, setSharedImage] = useState<{ room: string; url: string; id: string } | null>(null);
+  const isHosting = session?.role === 'host' && session.status !== 'closed';
+  // Guests see the host's story instead of their own, from the moment they try to join
+  const isGuest = session?.role === 'guest' && (!!session.room || session.status !== 'closed');
   
   // Refs for auto-scrolling
   const bottomRef = useRef<HTMLDivElement>(null);
 
-  // Initialize Random Themes on mount
-  useEffect(() => {
-    const shuffled = [...THEME_POOL].sort(() => 0.5 - Math.random());
-    setSuggestedThemes(shuffled.slice(0, 4));
+  // The summary being written, if any. It belongs to the run: a reset, load or rewind cancels it.
+  const summaryRef = useRef<AbortController | null>(null);
+
+  // Theme the archetype suggestions in flight belong to
+  const archetypeThemeRef = useRef('');
+
+  // Illustrations in flight, by node, so each can be cancelled or replaced on its own
+  const imageJobsRef = useRef(new Map<string, AbortController>());
+  // Turns already sent to the image engine, so a failed drawing isn't retried in a loop
+  const illustratedRef = useRef(new Set<string>());
+
+  const refreshSaves = useCallback(() => {
+    listSaves().then(setSaves).catch(err => console.warn("Could not list saves", err));
   }, []);
 
+  // Initialize Random Themes and saved games on mount
+  useEffect(() => {
+    setSuggestedThemes(pickThemes(language));
+    refreshSaves();
+  }, [refreshSaves]);
+
+  useEffect(() => {
+    storeLanguage(language);
+  }, [language]);
+
+  useEffect(() => {
+    applyReducedMotion(reducedMotion);
+  }, [reducedMotion]);
+
+  // Suggestions follow the language; a theme the player typed is kept
+  const handleLanguageChange = (next: Language) => {
+    if (next === language) return;
+    setLanguage(next);
+    setSuggestedThemes(pickThemes(next));
+    if (suggestedThemes.includes(customTheme)) {
+      setSelectedTheme('');
+      setCustomTheme('');
+    }
+  };
+
+  // Autosave whenever the run changes (new turn, image arrival, choice made, death)
+  useEffect(() => {
+    if (mode === 'START' || history.length === 0) return;
+    writeSave(AUTOSAVE_ID, t.saves.autosave, game)
+      .catch(err => console.warn("Autosave failed", err));
+  }, [mode, game]);
+
   // Helper to scroll to bottom
   const scrollToBottom = () => {
     // Only scroll if we are not at the very top (initial load)
     if (currentTurn) {
-        bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+        bottomRef.current?.scrollIntoView({ behavior: reducedMotion ? 'auto' : 'smooth', block: 'end' });
     }
   };
 
-  // Logic to determine when to show choices
-  // Rules: 
-  // 1. Text must be fully typed (isTypingComplete)
-  // 2. Image must be loaded OR failed (isImageLoading must be false)
-  const areChoicesVisible = !isStoryLoading && isTypingComplete && !isImageLoading;
+  // Choices show as soon as the text is fully typed; the illustration never holds them back
+  const areChoicesVisible = !isStoryLoading && isTypingComplete;
+  const isImageLoading = !!storyTree.currentId && drawing.includes(storyTree.currentId);
+
+  // Once the first words of the next turn arrive they replace the current one on screen
+  const isStreamingTurn = !!streamingText;
 
   useEffect(() => {
     if (areChoicesVisible) {
@@ -75,171 +213,506 @@ const App: React.FC = () => {
     }
   }, [areChoicesVisible]);
 
-  // Start Game Handler
-  const handleStartGame = async () => {
-    const selectedTheme = customTheme.trim() || theme;
-    if (!selectedTheme) return;
+  // Every new turn, or the next one starting to stream, is animated again
+  useEffect(() => {
+    setIsTypingSkipped(false);
+  }, [storyTree.currentId, pending?.requestId]);
+
+  // Screen readers hear each turn once it is on screen, with the HP it cost or healed
+  // (in a party, to the player who acted) and whose turn it is now
+  useEffect(() => {
+    if (mode === 'START' || !currentTurn) return;
+    const actor = party?.members.find(member => member.character.name === history[history.length - 2]?.chosenBy);
+    setAnnouncement([
+      currentTurn.text,
+      currentTurn.hpChange !== 0 ? t.a11y.hpChanged(currentTurn.hpChange, actor?.hp ?? hp) : '',
+      mode === 'GAMEOVER' ? t.endings[endingOf(currentTurn)].title : party ? t.party.turnOf(character.name) : '',
+    ].filter(Boolean).join(' '));
+  }, [storyTree.currentId, mode]);
+
+  // The browser loads its voices asynchronously, and may add more later
+  useEffect(() => {
+    if (!isNarrationSupported()) return;
+    const synth = window.speechSynthesis;
+    const loadVoices = () => setVoices(synth.getVoices());
+    loadVoices();
+    synth.addEventListener('voiceschanged', loadVoices);
+    narratorRef.current = createNarrator({ onProgress: setNarratedChars, onPausedChange: setIsNarrationPaused });
+    return () => {
+      synth.removeEventListener('voiceschanged', loadVoices);
+      narratorRef.current?.stop();
+      narratorRef.current = null;
+    };
+  }, []);
+
+  const narratorVoice = pickVoice(voices, language, narration.voiceURI);
+
+  useEffect(() => {
+    narratorRef.current?.configure(narratorVoice, narration.rate);
+  }, [narratorVoice, narration.rate]);
+
+  // Reads aloud what is on screen: the turn as it streams in, or the ending.
+  // With auto-advance the choices are read after the turn, so it can be played without looking.
+  const ending = endingOf(currentTurn);
+  const readChoices = narration.autoAdvance && mode === 'PLAYING' && !isStoryLoading && currentTurn ? spokenChoices(currentTurn.choices) : [];
+  const narratedText = mode === 'PLAYING'
+    ? (streamingText || currentTurn?.text || '') + (readChoices.length > 0 ? `\n\n${t.narration.choices(readChoices.map(choice => choice.text))}` : '')
+    : mode === 'GAMEOVER' ? `${t.endings[ending].title}. ${t.endings[ending].epilogue}` : '';
+
+  useEffect(() => {
+    const narrator = narratorRef.current;
+    if (!narrator) return;
+    if (narration.enabled && narratedText) narrator.narrate(narratedText, !isStreamingTurn);
+    else narrator.stop();
+  }, [narratedText, isStreamingTurn, narration.enabled]);
+
+  // Runs the story engine request the game is waiting on. A newer request, a rewind or a reset cancels it.
+  useEffect(() => {
+    if (!pending) return;
+    const { requestId, choicesFor } = pending;
+    const controller = new AbortController();
+    const request = {
+      theme,
+      language,
+      character,
+      hp: pending.hp,
+      inventory: pending.inventory,
+      lastChoice: pending.choice,
+      checkResult: pending.checkResult,
+      depth: pending.depth,
+      context: pending.context,
+      ...(game.campaign && { campaign: { campaign: game.campaign, beatIndex: pending.beatIndex } }),
+      difficulty: game.difficulty,
+      ...(pending.party && { party: pending.party }),
+      signal: controller.signal,
+    };
+    const fail = (e: unknown) => {
+      // Cancelled by a reset or a newer turn, nothing to report
+      if (isAborted(e) || controller.signal.aborted) return;
+      console.error(e);
+      // The current turn stays as it was: the player can retry or pick another choice
+      setIsTypingComplete(true);
+      dispatch({ type: 'turnFailed', requestId, error: e instanceof StoryEngineError ? e : new StoryEngineError('UNKNOWN', String(e), { cause: e }) });
+    };
+
+    // The turn is already on screen, only its choices are missing
+    if (choicesFor) {
+      engines.story.suggestChoices({ ...request, narrative: game.tree.nodes[choicesFor].turn.text }).then(choices => {
+        if (!controller.signal.aborted) dispatch({ type: 'choicesReceived', requestId, choices });
+      }).catch(fail);
+      return () => controller.abort();
+    }
 
-    setMode('PLAYING');
-    setIsStoryLoading(true);
-    setHp(INITIAL_HP);
-    setInventory([]);
-    setCustomTheme('');
-    setCurrentTurn(null);
     setIsTypingComplete(false);
-    setIsImageLoading(false);
-    
-    await processTurn(selectedTheme, INITIAL_HP, [], null, "Inicio de la historia");
+    if (pending.parentId) compressMemoryInBackground();
+
+    engines.story.generateStorySegment({
+      ...request,
+      onNarrative: (text) => {
+        if (!controller.signal.aborted) dispatch({ type: 'narrative', requestId, text });
+      },
+    }).then(response => {
+      if (!controller.signal.aborted) dispatch({ type: 'turnReceived', requestId, nodeId: newNodeId(), response });
+    }).catch(fail);
+
+    return () => controller.abort();
+  }, [pending?.requestId]);
+
+  // Illustrates a turn in the background. The drawing outlives the turn: the player may act meanwhile,
+  // and the image lands on the node it was drawn for wherever the story is by then.
+  // A cached image for the same prompt is reused unless refresh is set.
+  const startSceneImage = (nodeId: string, prompt: string | undefined, refresh = false) => {
+    if (!prompt || !imagesEnabled) return;
+    imageJobsRef.current.get(nodeId)?.abort();
+    const controller = new AbortController();
+    imageJobsRef.current.set(nodeId, controller);
+    illustratedRef.current.add(nodeId);
+    dispatch({ type: 'imageRequested', nodeId });
+
+    renderScene(engines.image, prompt, { signal: controller.signal, refresh }).then((url) => {
+        if (!controller.signal.aborted) dispatch({ type: 'imageReceived', nodeId, url });
+    }).catch(err => {
+        // A newer drawing of the same turn, or a new run, owns the state now
+        if (controller.signal.aborted || isAborted(err)) return;
+        console.error("Background image generation failed", err);
+        dispatch({ type: 'imageReceived', nodeId });
+    }).finally(() => {
+        if (imageJobsRef.current.get(nodeId) === controller) imageJobsRef.current.delete(nodeId);
+    });
   };
 
-  // Process a turn (Parallel Logic)
-  const processTurn = async (
-    currentTheme: string, 
-    currentHp: number, 
-    currentInv: string[], 
-    choiceText: string | null,
-    historyCtx: string
-  ) => {
-    try {
-      setIsStoryLoading(true);
-      setIsTypingComplete(false);
-      setIsImageLoading(false);
-
-      // 1. Generate Story Logic & Text
-      const storyData = await generateStorySegment(currentTheme, currentHp, currentInv, choiceText, historyCtx);
-
-      // 2. Update Game State IMMEDIATELY with text (Image is undefined for now)
-      const newHp = Math.min(100, Math.max(0, currentHp + storyData.hpChange));
-      
-      let newInv = [...currentInv];
-      newInv = newInv.filter(item => !storyData.inventoryRemove.includes(item));
-      storyData.inventoryAdd.forEach(item => {
-        if (!newInv.includes(item)) newInv.push(item);
-      });
+  // Stops every illustration in flight
+  const cancelSceneImages = () => {
+    imageJobsRef.current.forEach(controller => controller.abort());
+    imageJobsRef.current.clear();
+    dispatch({ type: 'imagesCancelled' });
+  };
 
-      setHp(newHp);
-      setInventory(newInv);
-
-      if (storyData.isGameOver || newHp <= 0) {
-        setMode('GAMEOVER');
-        setCurrentTurn({
-            text: storyData.narrative,
-            imageUrl: undefined,
-            choices: []
-        });
-        setIsStoryLoading(false);
-        // Don't generate image for game over to save time/tokens, or do it if you want.
-        return;
-      }
-
-      // Set turn with NO image yet
-      setCurrentTurn({
-        text: storyData.narrative,
-        imageUrl: undefined,
-        choices: storyData.choices
+  // Each turn is illustrated the first time it becomes the current one.
+  // Endings aren't, to save time and quota.
+  useEffect(() => {
+    const node = storyTree.currentId ? storyTree.nodes[storyTree.currentId] : undefined;
+    if (!imagesEnabled || !node || node.turn.imageUrl || node.turn.choices.length === 0 || illustratedRef.current.has(node.id)) return;
+    startSceneImage(node.id, node.turn.imagePrompt);
+  }, [storyTree.currentId, imagesEnabled]);
+
+  // Theme picked: on to character creation while the engine suggests fitting archetypes
+  const handleChooseTheme = () => {
+    const nextTheme = selectedCampaign?.theme || customTheme.trim() || selectedTheme;
+    if (!nextTheme) return;
+
+    setSelectedTheme(nextTheme);
+    setStartStep('CHARACTER');
+    setArchetypes(null);
+    archetypeThemeRef.current = nextTheme;
+
+    engines.story.suggestArchetypes(nextTheme, language)
+      .catch(err => {
+        console.warn("Archetype suggestion failed, using the default ones", err);
+        return DEFAULT_ARCHETYPES[language];
+      })
+      .then(result => {
+        if (archetypeThemeRef.current === nextTheme) setArchetypes(result);
       });
-      
-      // Stop "Story Loading" spinner, this triggers Typewriter to start
-      setIsStoryLoading(false); 
-
-      // 3. Trigger Image Generation in Background
-      if (storyData.visualDescription) {
-        setIsImageLoading(true);
-        // We do not await this here to block the UI. We let it run.
-        generateSceneImage(storyData.visualDescription).then((url) => {
-            // Update the current turn with the image URL when it arrives
-            setCurrentTurn(prev => prev ? { ...prev, imageUrl: url } : null);
-            setIsImageLoading(false);
-        }).catch(err => {
-            console.error("Background image generation failed", err);
-            setIsImageLoading(false);
-        });
-      }
+  };
 
+  const handleCampaignFile = async (file: File) => {
+    try {
+      setSelectedCampaign(parseCampaign(await file.text()));
+      setCampaignIssues([]);
     } catch (e) {
-      console.error(e);
-      setMode('START'); 
-      alert("Hubo un error crítico conectando con el mundo. Intenta de nuevo.");
-      setIsStoryLoading(false);
+      console.warn("Campaign rejected", e);
+      setSelectedCampaign(null);
+      setCampaignIssues(e instanceof CampaignError ? e.issues : [String(e)]);
+    }
+  };
+
+  // Start Game Handler. In a party each player creates a character in turn, and the last one starts the run.
+  const handleStartGame = (newCharacter: Character) => {
+    if (!selectedTheme) return;
+    const [first, ...companions] = [...partyCharacters, newCharacter];
+    if (companions.length + 1 < partySize) {
+      setPartyCharacters([first, ...companions]);
+      return;
     }
+    cancelSceneImages();
+    setCustomTheme('');
+    setPartyCharacters([]);
+    setIsTypingComplete(false);
+    dispatch({
+      type: 'start',
+      theme: selectedTheme,
+      character: first,
+      artStyle,
+      difficulty,
+      ...(selectedCampaign && { campaign: selectedCampaign }),
+      ...(partySize > 1 && { party: { mode: partyMode, companions } }),
+      openingId: newNodeId(),
+    });
+  };
+
+  // Back to the theme; players already created are dropped
+  const backToTheme = () => {
+    setPartyCharacters([]);
+    setStartStep('THEME');
+  };
+
+  const retryTurn = () => {
+    dispatch({ type: 'retry' });
   };
 
+  // Whose call the choices are: the player to vote, or the one whose turn it is
+  const voter = party?.mode === 'vote' ? nextVoter(party, votes) : undefined;
+  const choicesHeading = voter !== undefined && party
+    ? t.party.voteOf(party.members[voter].character.name)
+    : party ? t.party.turnOf(character.name) : t.game.whatNext;
+
+  // In a voting party the choice is the next player's vote; only the last vote moves the story on
   const handleChoice = (choice: Choice) => {
-    if (!currentTurn) return;
-    
-    // Construct brief context
-    const historyContext = `Anteriormente: ${currentTurn.text.substring(0, 200)}...`;
-    
-    processTurn(
-      theme || customTheme, 
-      hp, 
-      inventory, 
-      choice.text, 
-      historyContext
-    );
+    if (!currentTurn || isStoryLoading) return;
+    if (party?.mode === 'vote') {
+      if (voter === undefined) return;
+      if (nextVoter(party, [...votes, { voter, choice }]) === undefined) setIsTypingComplete(false);
+      dispatch({ type: 'vote', choice, dice: Math.random() });
+      return;
+    }
+    setIsTypingComplete(false);
+    dispatch({ type: 'choose', choice, dice: Math.random() });
   };
 
+  // Auto-advance: once everything has been read out, the first choice plays unless someone picks first
+  const autoChoice = narration.enabled && narration.autoAdvance && isNarrationSupported() && mode === 'PLAYING' &&
+    areChoicesVisible && narratedChars === Infinity && currentTurn ? spokenChoices(currentTurn.choices)[0] : undefined;
+  const autoChoiceRef = useRef(handleChoice);
+  autoChoiceRef.current = handleChoice;
+  useEffect(() => {
+    if (!autoChoice) return;
+    const timer = setTimeout(() => autoChoiceRef.current(autoChoice), AUTO_ADVANCE_MS);
+    return () => clearTimeout(timer);
+  }, [autoChoice, votes.length]);
+
+  // Rewinds (or fast-forwards) to an explored turn
+  const goToNode = (id: string) => {
+    if (id === storyTree.currentId) return;
+    setIsMapOpen(false);
+    setIsTypingComplete(false);
+    dispatch({ type: 'goTo', nodeId: id });
+  };
+
+  // Free-text actions go through the same pipeline, flagged so the DM adjudicates them
+  const handleCustomAction = (action: string) => {
+    handleChoice({ id: `custom-${Date.now()}`, text: action, isCustom: true });
+  };
+
+  // The game engine applies the item's effects; the choice text is what the story engine narrates
+  const handleItemAction = (kind: ItemAction['kind'], item: Item) => {
+    handleChoice({ id: `item-${kind}-${item.id}`, text: `${t.inventory[kind]} ${item.name}`, itemAction: { kind, itemId: item.id } });
+  };
+
+  // Summaries are slow and optional: old turns stay verbatim until one lands
+  const compressMemoryInBackground = () => {
+    if (summaryRef.current) return;
+    const controller = new AbortController();
+    summaryRef.current = controller;
+    const { runId } = engineState;
+
+    compressStoryMemory(engines.story, memory, history, language, controller.signal).then(compressed => {
+      if (compressed && !controller.signal.aborted) dispatch({ type: 'summaryReceived', runId, ...compressed });
+    }).catch(err => {
+      if (isAborted(err) || controller.signal.aborted) return;
+      console.warn("Story summary failed, keeping turns verbatim", err);
+    }).finally(() => {
+      if (summaryRef.current === controller) summaryRef.current = null;
+    });
+  };
+
+  useEffect(() => () => {
+    summaryRef.current?.abort();
+    summaryRef.current = null;
+  }, [engineState.runId]);
+
+  // Draws the current scene again, replacing its cached image
+  const regenerateImage = () => {
+    const nodeId = storyTree.currentId;
+    if (!nodeId || !currentTurn?.imagePrompt) return;
+    startSceneImage(nodeId, currentTurn.imagePrompt, true);
+  };
+
+  const updateNarration = (changes: Partial<NarrationSettings>) => {
+    const next = { ...narration, ...changes };
+    setNarration(next);
+    storeNarrationSettings(next);
+  };
+
+  // Turning images off also stops the ones being drawn
+  const toggleImages = () => {
+    const enabled = !imagesEnabled;
+    setImagesEnabled(enabled);
+    storeImagesEnabled(enabled);
+    if (!enabled) cancelSceneImages();
+  };
+
+  const abandonRun = () => {
+    if (!currentTurn || !confirm(t.game.confirmAbandon)) return;
+    dispatch({ type: 'abandon' });
+  };
+
+  // Opens a connection to the relay and tracks the room it seats this app in
+  const startSession = (role: SessionRole, hello: RelayClientMessage) => {
+    sessionRef.current?.disconnect();
+    const sessionId = ++sessionIdRef.current;
+    const isCurrent = () => sessionIdRef.current === sessionId;
+    setSession({ role, status: 'connecting', players: [] });
+
+    sessionRef.current = connectSession({
+      hello,
+      onStatusChange: (status) => {
+        if (isCurrent()) setSession(info => info && { ...info, status });
+      },
+      onMessage: (message) => {
+        if (!isCurrent()) return;
+        // Only guests sit back down after a reload; the host's story lives in this page
+        if (message.type === 'joined' && message.role === 'guest') storeSeat({ room: message.room, token: message.token, role: message.role });
+        if (message.type === 'closed' || (message.type === 'error' && message.code === 'BAD_TOKEN')) storeSeat(null);
+        if (message.type === 'choice') remoteChoiceRef.current(message.choice);
+        setSession(info => info && applyRelayMessage(info, message));
+      },
+    });
+  };
+
+  // Gives up the seat; a host closes the room for everyone
+  const leaveSession = () => {
+    sessionIdRef.current++;
+    sessionRef.current?.leave();
+    sessionRef.current = null;
+    storeSeat(null);
+    setSession(null);
+    setIsSessionOpen(false);
+  };
+
+  const openRoom = () => {
+    startSession('host', { type: 'create', name: (party?.members[0].character ?? character).name });
+  };
+
+  const joinRoom = (room: string, name: string) => {
+    startSession('guest', { type: 'join', room, name });
+  };
+
+  // A seat kept from before a reload is taken back. Unmounting only drops the connection,
+  // so the relay keeps the seat for the next mount.
+  useEffect(() => {
+    const seat = loadSeat();
+    if (seat?.role === 'guest') startSession('guest', { type: 'resume', room: seat.room, token: seat.token });
+    return () => sessionRef.current?.disconnect();
+  }, []);
+
+  // Guests' choices are played like the host's own. The first one to arrive wins:
+  // the rest find a turn already being written and are dropped.
+  // In a party the turns belong to the players at this screen, so guests only watch.
+  const handleRemoteChoice = (choice: unknown) => {
+    if (mode !== 'PLAYING' || !currentTurn || isStoryLoading || game.party) return;
+    const accepted = acceptRemoteChoice(currentTurn, choice);
+    if (accepted) handleChoice(accepted);
+  };
+
+  const remoteChoiceRef = useRef(handleRemoteChoice);
+  remoteChoiceRef.current = handleRemoteChoice;
+
+  // The current illustration goes to the room once; the snapshot below names it when it is there
+  const sceneImageUrl = currentTurn?.imageUrl;
+  useEffect(() => {
+    const room = session?.room;
+    if (!isHosting || session?.status !== 'open' || !room || !sceneImageUrl) return;
+    if (sharedImage?.room === room && sharedImage.url === sceneImageUrl) return;
+    let isCurrent = true;
+    const id = randomId();
+    sessionRef.current?.uploadImage(id, sceneImageUrl).then((ok) => {
+      if (ok && isCurrent) setSharedImage({ room, url: sceneImageUrl, id });
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [isHosting, session?.status, session?.room, sceneImageUrl, sharedImage]);
+
+  // The host publishes the run whenever it changes, and again after reconnecting, so guests resync from it
+  useEffect(() => {
+    if (!isHosting || session?.status !== 'open' || mode === 'START') return;
+    const imageId = sharedImage?.room === session.room && sharedImage.url === sceneImageUrl ? sharedImage.id : undefined;
+    sessionRef.current?.send({ type: 'state', snapshot: buildSnapshot(game, history, language, isStoryLoading, imageId) });
+  }, [isHosting, session?.status, history, hp, mode, isStoryLoading, sharedImage]);
+
+  // The next turn streams to guests as it streams here
+  useEffect(() => {
+    if (isHosting && streamingText) sessionRef.current?.send({ type: 'narrative', text: streamingText });
+  }, [isHosting, streamingText]);
+
   const resetGame = () => {
-    setMode('START');
-    setHp(INITIAL_HP);
-    setInventory([]);
-    setCurrentTurn(null);
-    setIsStoryLoading(false);
-    setIsImageLoading(false);
+    if (isHosting) leaveSession();
+    cancelSceneImages();
+    dispatch({ type: 'reset' });
+    setStartStep('THEME');
+    setPartyCharacters([]);
+    setIsChronicleOpen(false);
+    setIsJournalOpen(false);
+    setIsMapOpen(false);
     setIsTypingComplete(false);
     
-    const shuffled = [...THEME_POOL].sort(() => 0.5 - Math.random());
-    setSuggestedThemes(shuffled.slice(0, 4));
+    setSuggestedThemes(pickThemes(language));
+    refreshSaves();
+  };
+
+  const applySave = ({ state }: SaveGame) => {
+    cancelSceneImages();
+    setCustomTheme('');
+    setIsTypingComplete(false);
+    dispatch({ type: 'load', state });
+  };
+
+  const handleLoadSave = async (id: string) => {
+    try {
+      const save = await loadSave(id);
+      if (save) applySave(save);
+    } catch (e) {
+      console.error(e);
+      alert(e instanceof DatabaseBlockedError ? t.saves.blocked : t.saves.loadFailed);
+    }
+  };
+
+  const handleDeleteSave = async (id: string) => {
+    if (!confirm(t.saves.confirmDelete)) return;
+    await deleteSave(id).catch(err => console.warn("Could not delete save", err));
+    refreshSaves();
   };
 
+  const handleManualSave = async () => {
+    const name = prompt(t.saves.namePrompt, theme);
+    if (!name?.trim()) return;
+    try {
+      await writeSave(`slot-${Date.now()}`, name.trim(), game);
+      refreshSaves();
+    } catch (e) {
+      console.error(e);
+      alert(e instanceof DatabaseBlockedError ? t.saves.blocked : t.saves.saveFailed);
+    }
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    downloadStory({ theme, language, character, hp, inventory, turns: history, ending: endingOf(currentTurn) }, format, t);
+  };
+
+  // Latest run that can still be played
+  const continuableSave = saves.find(save => !save.isGameOver);
+
   const onTextComplete = useCallback(() => {
     setIsTypingComplete(true);
   }, []);
 
-  // --- RENDERERS ---
+  // Shows the whole text at once, and stops reading it aloud
+  const skipTyping = () => {
+    narratorRef.current?.skip();
+    setIsTypingSkipped(true);
+  };
 
-  const renderInventoryModal = () => {
-    if (!isInventoryOpen) return null;
-    return (
-      <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in" onClick={() => setIsInventoryOpen(false)}>
-        <div 
-          className="w-full max-w-sm bg-slate-900 border border-slate-700 rounded-xl shadow-2xl overflow-hidden transform transition-all scale-100" 
-          onClick={e => e.stopPropagation()}
-        >
-          <div className="bg-slate-800 p-4 flex items-center justify-between border-b border-slate-700">
-            <div className="flex items-center gap-2 text-indigo-400 font-cinzel font-bold text-lg">
-              <Backpack size={20} />
-              <span>Inventario</span>
-            </div>
-            <button onClick={() => setIsInventoryOpen(false)} className="text-slate-400 hover:text-white">
-              <X size={20} />
-            </button>
-          </div>
-          <div className="p-6 min-h-[200px] max-h-[60vh] overflow-y-auto">
-             {inventory.length === 0 ? (
-               <div className="flex flex-col items-center justify-center h-full text-slate-500 gap-3 py-8">
-                 <Box size={40} className="opacity-50" />
-                 <p>Tu mochila está vacía.</p>
-               </div>
-             ) : (
-               <ul className="space-y-2">
-                 {inventory.map((item, idx) => (
-                   <li key={idx} className="flex items-center gap-3 bg-slate-950/50 p-3 rounded-lg border border-slate-800 text-slate-200">
-                     <div className="w-2 h-2 rounded-full bg-indigo-500" />
-                     {item}
-                   </li>
-                 ))}
-               </ul>
-             )}
-          </div>
-          <div className="bg-slate-800/50 p-3 text-center text-xs text-slate-500 border-t border-slate-800">
-             Capacidad: {inventory.length}/Infinite
-          </div>
-        </div>
-      </div>
-    );
+  const toggleReducedMotion = () => {
+    setReducedMotion(!reducedMotion);
+    storeReducedMotion(!reducedMotion);
   };
 
+  // Keyboard play: 1-4 pick a choice, I opens the backpack, P the people met, S skips the text animation.
+  // Keys typed into a field, or while a panel is open, are left alone.
+  const handleShortcut = (e: KeyboardEvent) => {
+    if (mode !== 'PLAYING' || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (isInventoryOpen || isJournalOpen || isChronicleOpen || isMapOpen || isSessionOpen) return;
+    if ((e.target as HTMLElement).closest?.('input, textarea, select, [contenteditable="true"]')) return;
+
+    const choice = /^[1-4]$/.test(e.key) ? currentTurn?.choices[Number(e.key) - 1] : undefined;
+    if (choice && areChoicesVisible) {
+      e.preventDefault();
+      handleChoice(choice);
+    } else if (e.key.toLowerCase() === 'i') {
+      e.preventDefault();
+      setIsInventoryOpen(true);
+    } else if (e.key.toLowerCase() === 'p') {
+      e.preventDefault();
+      setIsJournalOpen(true);
+    } else if (e.key.toLowerCase() === 's' && currentTurn && !isTypingComplete) {
+      e.preventDefault();
+      skipTyping();
+    }
+  };
+
+  // The listener stays bound; it always runs the handler of the latest render
+  const shortcutRef = useRef(handleShortcut);
+  shortcutRef.current = handleShortcut;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => shortcutRef.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // --- RENDERERS ---
+
   const renderStartScreen = () => (
     <div className="flex flex-col items-center justify-center min-h-[80vh] space-y-8 animate-fade-in">
       <div className="text-center space-y-4">
@@ -250,55 +723,143 @@ const App: React.FC = () => {
           AI Chronicles
         </h1>
         <p className="text-slate-400 max-w-md mx-auto text-lg">
-          Elige tu destino. Una historia infinita generada solo para ti.
+          {t.start.tagline}
         </p>
       </div>
 
-      <div className="w-full max-w-md space-y-6 bg-slate-900/50 p-6 rounded-2xl border border-slate-800 backdrop-blur-sm">
+      {startStep === 'THEME' && (
         <div className="space-y-3">
-          <label className="text-sm font-semibold text-slate-300 uppercase tracking-wider">Elige un tema</label>
-          <div className="grid grid-cols-2 gap-3">
-            {suggestedThemes.map((t) => (
-              <button
-                key={t}
-                onClick={() => { setTheme(t); setCustomTheme(t); }}
-                className={`p-3 rounded-lg text-sm font-medium transition-all ${
-                  customTheme === t 
-                    ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50' 
-                    : 'bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-slate-200'
-                }`}
-              >
-                {t}
-              </button>
-            ))}
-          </div>
+          <LanguagePicker language={language} onChange={handleLanguageChange} />
+          <ArtStylePicker artStyle={artStyle} imagesEnabled={imagesEnabled} onChange={setArtStyle} onToggleImages={toggleImages} />
+          <DifficultyPicker difficulty={difficulty} onChange={setDifficulty} />
+          <PartyPicker size={partySize} mode={partyMode} onSizeChange={setPartySize} onModeChange={setPartyMode} />
         </div>
+      )}
 
-        <div className="space-y-3">
-          <label className="text-sm font-semibold text-slate-300 uppercase tracking-wider">O escribe el tuyo</label>
-          <input
-            type="text"
-            value={customTheme}
-            onChange={(e) => setCustomTheme(e.target.value)}
-            placeholder="Ej: Un samurai en el espacio..."
-            className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all placeholder:text-slate-600"
+      <div className="w-full max-w-md space-y-6 bg-slate-900/50 p-6 rounded-2xl border border-slate-800 backdrop-blur-sm">
+        {startStep === 'CHARACTER' ? (
+          <CharacterCreator
+            key={partyCharacters.length}
+            theme={selectedTheme}
+            archetypes={archetypes}
+            isStarting={isStoryLoading}
+            player={partySize > 1 ? {
+              number: partyCharacters.length + 1,
+              count: partySize,
+              takenNames: partyCharacters.map(created => created.name),
+            } : undefined}
+            onConfirm={handleStartGame}
+            onBack={backToTheme}
           />
-        </div>
+        ) : (
+          <>
+            {selectedCampaign ? (
+              <div className="space-y-3">
+                <label className="text-sm font-semibold text-slate-300 uppercase tracking-wider">{t.start.campaign}</label>
+                <div className="flex items-start gap-3 p-4 rounded-lg bg-indigo-500/10 border border-indigo-500/50">
+                  <ScrollText size={20} className="text-indigo-400 shrink-0 mt-0.5" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-white">{selectedCampaign.title}</p>
+                    <p className="text-xs text-slate-400">{t.start.campaignBeats(selectedCampaign.beats.length)}</p>
+                  </div>
+                  <button onClick={() => setSelectedCampaign(null)} className="text-slate-400 hover:text-white" title={t.start.removeCampaign}>
+                    <X size={18} />
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <div className="space-y-3">
+                  <label className="text-sm font-semibold text-slate-300 uppercase tracking-wider">{t.start.chooseTheme}</label>
+                  <div className="grid grid-cols-2 gap-3">
+                    {suggestedThemes.map((suggestion) => (
+                      <button
+                        key={suggestion}
+                        onClick={() => { setSelectedTheme(suggestion); setCustomTheme(suggestion); }}
+                        className={`p-3 rounded-lg text-sm font-medium transition-all ${
+                          customTheme === suggestion 
+                            ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/50' 
+                            : 'bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-slate-200'
+                        }`}
+                      >
+                        {suggestion}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+    
+                <div className="space-y-3">
+                  <label className="text-sm font-semibold text-slate-300 uppercase tracking-wider">{t.start.customTheme}</label>
+                  <input
+                    type="text"
+                    value={customTheme}
+                    onChange={(e) => setCustomTheme(e.target.value)}
+                    placeholder={t.start.customThemePlaceholder}
+                    className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all placeholder:text-slate-600"
+                  />
+                </div>
+    
+                <div className="space-y-2">
+                  <label className="flex items-center justify-center gap-2 p-3 rounded-lg border border-dashed border-slate-700 text-sm text-slate-400 hover:text-slate-200 hover:border-slate-500 cursor-pointer transition-colors">
+                    <ScrollText size={16} />
+                    {t.start.loadCampaign}
+                    <input
+                      type="file"
+                      accept=".json,application/json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleCampaignFile(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                  {campaignIssues.length > 0 && (
+                    <div className="text-xs text-red-400 space-y-1">
+                      <p>{t.start.campaignInvalid}</p>
+                      <ul className="list-disc pl-5">
+                        {campaignIssues.map(issue => <li key={issue}>{issue}</li>)}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
 
-        <Button 
-          fullWidth 
-          onClick={handleStartGame} 
-          disabled={!customTheme || isStoryLoading}
-          className="mt-4"
-        >
-          {isStoryLoading ? (
-            <span className="flex items-center justify-center gap-2">
-              <Loader2 className="animate-spin" size={20} /> Generando Mundo...
-            </span>
-          ) : (
-            "Comenzar Aventura"
-          )}
-        </Button>
+            <Button 
+              fullWidth 
+              onClick={handleChooseTheme} 
+              disabled={(!customTheme && !selectedCampaign) || isStoryLoading}
+              className="mt-4"
+            >
+              {t.start.createCharacter}
+            </Button>
+
+            {continuableSave && (
+              <Button
+                fullWidth
+                variant="secondary"
+                onClick={() => handleLoadSave(continuableSave.id)}
+                disabled={isStoryLoading}
+              >
+                <span className="flex items-center justify-center gap-2">
+                  <Play size={18} /> {t.start.continueRun(continuableSave.theme)}
+                </span>
+              </Button>
+            )}
+
+            {saves.length > 0 && (
+              <div className="space-y-3 pt-2 border-t border-slate-800">
+                <label className="text-sm font-semibold text-slate-300 uppercase tracking-wider">{t.start.savedGames}</label>
+                <SaveSlots saves={saves} onLoad={handleLoadSave} onDelete={handleDeleteSave} />
+              </div>
+            )}
+
+            <div className="pt-2 border-t border-slate-800">
+              <JoinRoomForm error={session?.error && t.session.errors[session.error]} onJoin={joinRoom} />
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
@@ -308,106 +869,263 @@ const App: React.FC = () => {
       {/* Header Stats */}
       <div className="sticky top-4 z-40 bg-slate-900/90 backdrop-blur-md p-4 rounded-xl border border-slate-700/50 shadow-xl flex items-center justify-between">
         <div className="flex items-center gap-6">
-          <div className="flex items-center gap-2 text-rose-400 font-bold">
+          <div className="hidden md:flex items-center gap-2 text-slate-300" title={`${t.attributes.strength} ${character.attributes.strength} · ${t.attributes.agility} ${character.attributes.agility} · ${t.attributes.wits} ${character.attributes.wits}`}>
+            <UserRound size={18} className="text-indigo-400" />
+            <span className="text-sm font-medium">{character.name}</span>
+            <span className="text-xs text-slate-500">{character.archetype}</span>
+          </div>
+          <div className="flex items-center gap-2 text-rose-400 font-bold" aria-label={t.a11y.hp(hp)}>
             <Heart className={hp < 30 ? "animate-pulse" : ""} fill={hp < 30 ? "currentColor" : "none"} />
             <span>{hp}%</span>
           </div>
+          {isPermadeath && (
+            <span className="hidden sm:flex items-center gap-1 text-xs text-red-400" title={t.game.permadeath}>
+              <Skull size={14} /> {t.difficulties.hardcore.name}
+            </span>
+          )}
           <button 
             onClick={() => setIsInventoryOpen(true)}
+            aria-keyshortcuts="I"
+            title={`${t.inventory.title} (I)`}
             className="flex items-center gap-2 text-amber-400 hover:text-amber-300 transition-colors bg-slate-800/50 px-3 py-1.5 rounded-lg border border-slate-700 hover:border-amber-400/50"
           >
             <Backpack size={18} />
             <span className="text-sm font-medium hidden sm:inline">
-              Mochila ({inventory.length})
+              {t.game.backpack(countItems(inventory))}
+            </span>
+          </button>
+          <button 
+            onClick={() => setIsJournalOpen(true)}
+            aria-keyshortcuts="P"
+            title={`${t.journal.title} (P)`}
+            className="flex items-center gap-2 text-emerald-400 hover:text-emerald-300 transition-colors bg-slate-800/50 px-3 py-1.5 rounded-lg border border-slate-700 hover:border-emerald-400/50"
+          >
+            <BookUser size={18} />
+            <span className="text-sm font-medium hidden sm:inline">
+              {t.journal.button(memory.facts.npcs.length)}
+            </span>
+          </button>
+          <button 
+            onClick={() => setIsChronicleOpen(true)}
+            className="flex items-center gap-2 text-indigo-400 hover:text-indigo-300 transition-colors bg-slate-800/50 px-3 py-1.5 rounded-lg border border-slate-700 hover:border-indigo-400/50"
+          >
+            <History size={18} />
+            <span className="text-sm font-medium hidden sm:inline">
+              {t.game.chronicle(history.length)}
             </span>
           </button>
         </div>
-        <button 
-          onClick={resetGame}
-          className="p-2 hover:bg-slate-800 rounded-full text-slate-500 hover:text-white transition-colors"
-          title="Reiniciar"
-        >
-          <RefreshCw size={20} />
-        </button>
+        <div className="flex items-center gap-1">
+          <button 
+            onClick={() => setIsMapOpen(true)}
+            disabled={!currentTurn}
+            className="p-2 hover:bg-slate-800 rounded-full text-slate-500 hover:text-white transition-colors disabled:opacity-30"
+            title={t.game.map}
+          >
+            <GitBranch size={20} />
+          </button>
+          <button 
+            onClick={handleManualSave}
+            disabled={!currentTurn || isPermadeath}
+            className="p-2 hover:bg-slate-800 rounded-full text-slate-500 hover:text-white transition-colors disabled:opacity-30"
+            title={isPermadeath ? t.game.permadeath : t.game.save}
+          >
+            <Save size={20} />
+          </button>
+          <button 
+            onClick={() => setIsSessionOpen(true)}
+            className={`p-2 hover:bg-slate-800 rounded-full transition-colors ${isHosting ? 'text-emerald-400' : 'text-slate-500 hover:text-white'}`}
+            title={session?.room && isHosting ? `${t.session.title} · ${session.room}` : t.session.title}
+          >
+            <Radio size={20} />
+          </button>
+          <button 
+            onClick={toggleImages}
+            className={`p-2 hover:bg-slate-800 rounded-full transition-colors ${imagesEnabled ? 'text-slate-500 hover:text-white' : 'text-amber-400'}`}
+            title={imagesEnabled ? t.game.imagesOff : t.game.imagesOn}
+          >
+            {imagesEnabled ? <ImageIcon size={20} /> : <ImageOff size={20} />}
+          </button>
+          {isNarrationSupported() && (
+            <button 
+              onClick={() => updateNarration({ enabled: !narration.enabled })}
+              className={`p-2 hover:bg-slate-800 rounded-full transition-colors ${narration.enabled ? 'text-indigo-400' : 'text-slate-500 hover:text-white'}`}
+              title={narration.enabled ? t.narration.off : t.narration.on}
+            >
+              {narration.enabled ? <Volume2 size={20} /> : <VolumeX size={20} />}
+            </button>
+          )}
+          <button 
+            onClick={toggleReducedMotion}
+            aria-pressed={reducedMotion}
+            className={`p-2 hover:bg-slate-800 rounded-full transition-colors ${reducedMotion ? 'text-indigo-400' : 'text-slate-500 hover:text-white'}`}
+            title={t.a11y.reducedMotion}
+          >
+            <Accessibility size={20} />
+          </button>
+          <button 
+            onClick={abandonRun}
+            disabled={!currentTurn}
+            className="p-2 hover:bg-slate-800 rounded-full text-slate-500 hover:text-white transition-colors disabled:opacity-30"
+            title={t.game.abandon}
+          >
+            <Flag size={20} />
+          </button>
+          <button 
+            onClick={resetGame}
+            className="p-2 hover:bg-slate-800 rounded-full text-slate-500 hover:text-white transition-colors"
+            title={t.game.reset}
+          >
+            <RefreshCw size={20} />
+          </button>
+        </div>
       </div>
 
-      {renderInventoryModal()}
+      {party && <PartyPanel party={party} votes={votes} />}
+
+      {memory.facts.goals.length > 0 && (
+        <div className="flex items-start gap-2 px-4 text-xs text-slate-400" title={t.game.goals}>
+          <Target size={14} className="text-indigo-400 shrink-0" />
+          <span>{memory.facts.goals.map(goal => goal.text).join(' · ')}</span>
+        </div>
+      )}
+
+      <InventoryModal
+        inventory={inventory}
+        isOpen={isInventoryOpen}
+        canAct={areChoicesVisible && !!currentTurn}
+        onAction={handleItemAction}
+        onClose={() => setIsInventoryOpen(false)}
+      />
+      <JournalModal
+        npcs={memory.facts.npcs}
+        factions={memory.facts.factions}
+        isOpen={isJournalOpen}
+        onClose={() => setIsJournalOpen(false)}
+      />
+      <Chronicle turns={history} isOpen={isChronicleOpen} onClose={() => setIsChronicleOpen(false)} />
+      <SessionModal
+        session={session?.role === 'host' ? session : null}
+        isOpen={isSessionOpen}
+        onOpenRoom={openRoom}
+        onCloseRoom={leaveSession}
+        onClose={() => setIsSessionOpen(false)}
+      />
 
       {/* Main Content Area */}
       <div className="space-y-6">
         
         {/* Initial Loading State */}
-        {isStoryLoading && !currentTurn && (
+        {isStoryLoading && !currentTurn && !isStreamingTurn && (
           <div className="flex flex-col items-center justify-center py-20 text-slate-400 animate-pulse">
             <Loader2 size={48} className="animate-spin mb-4 text-indigo-500" />
-            <p>La historia se está escribiendo...</p>
+            <p>{t.game.writing}</p>
           </div>
         )}
 
-        {currentTurn && (
+        {(currentTurn || isStreamingTurn) && (
           <div className="space-y-6 animate-fade-in-up">
             
             {/* Image Section - Smaller & Centered */}
-            <div className="flex justify-center w-full">
-                <div className="w-full max-w-2xl h-48 md:h-64 bg-slate-900 rounded-xl overflow-hidden border border-slate-800 shadow-2xl relative group">
-                {currentTurn.imageUrl ? (
-                    <img 
-                    src={currentTurn.imageUrl} 
-                    alt="Scene visualization" 
-                    className="w-full h-full object-cover animate-fade-in"
-                    />
-                ) : (
-                    <div className="w-full h-full flex items-center justify-center bg-slate-800/50">
-                    <div className="flex flex-col items-center text-slate-600 gap-2">
-                        {isImageLoading ? (
-                            <>
-                                <Loader2 className="animate-spin text-indigo-400" />
-                                <span className="text-xs text-indigo-300">Dibujando escena...</span>
-                            </>
-                        ) : (
-                            <ImageIcon className="opacity-20" />
-                        )}
-                    </div>
-                    </div>
-                )}
-                <div className="absolute inset-0 border border-white/5 rounded-xl pointer-events-none" />
-                </div>
-            </div>
+            {imagesEnabled && (
+              <div className="flex justify-center w-full">
+                  <div className="w-full max-w-2xl h-48 md:h-64 bg-slate-900 rounded-xl overflow-hidden border border-slate-800 shadow-2xl relative group">
+                  {!isStreamingTurn && currentTurn?.imageUrl ? (
+                      <img 
+                      src={currentTurn.imageUrl} 
+                      alt={t.game.sceneAlt} 
+                      className="w-full h-full object-cover animate-fade-in"
+                      />
+                  ) : (
+                      <div className="w-full h-full flex items-center justify-center bg-slate-800/50">
+                      <div className="flex flex-col items-center text-slate-600 gap-2">
+                          {isImageLoading ? (
+                              <>
+                                  <Loader2 className="animate-spin text-indigo-400" />
+                                  <span className="text-xs text-indigo-300">{t.game.drawing}</span>
+                              </>
+                          ) : (
+                              <ImageIcon className="opacity-20" />
+                          )}
+                      </div>
+                      </div>
+                  )}
+                  {!isStreamingTurn && currentTurn?.imagePrompt && !isImageLoading && (
+                      <button
+                      onClick={regenerateImage}
+                      disabled={isStoryLoading}
+                      className="absolute top-2 right-2 p-2 rounded-full bg-slate-950/70 text-slate-300 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity disabled:hidden"
+                      title={t.game.regenerateImage}
+                      >
+                      <RotateCcw size={16} />
+                      </button>
+                  )}
+                  <div className="absolute inset-0 border border-white/5 rounded-xl pointer-events-none" />
+                  </div>
+              </div>
+            )}
 
             {/* Text Section */}
             <div className="bg-slate-900/40 p-6 rounded-xl border border-white/5 backdrop-blur-sm min-h-[100px]">
               <Typewriter 
-                text={currentTurn.text} 
+                text={streamingText || currentTurn?.text || ''} 
                 speed={15} 
+                isStreaming={isStreamingTurn}
+                revealLimit={narration.enabled ? narratedChars : undefined}
+                instant={reducedMotion || isTypingSkipped}
                 onComplete={onTextComplete} 
               />
+              {narration.enabled && isNarrationSupported() && (
+                <NarrationControls
+                  isPaused={isNarrationPaused}
+                  canControl={narratedChars !== Infinity}
+                  rate={narration.rate}
+                  voices={voicesFor(voices, language)}
+                  voiceURI={narratorVoice?.voiceURI}
+                  onPause={() => narratorRef.current?.pause()}
+                  onResume={() => narratorRef.current?.resume()}
+                  onSkip={() => narratorRef.current?.skip()}
+                  onRateChange={rate => updateNarration({ rate })}
+                  onVoiceChange={voiceURI => updateNarration({ voiceURI })}
+                  autoAdvance={narration.autoAdvance}
+                  onAutoAdvanceChange={autoAdvance => updateNarration({ autoAdvance })}
+                />
+              )}
             </div>
 
-            {/* Waiting Indicator (if text finished but image still loading) */}
-            {isTypingComplete && isImageLoading && (
-                <div className="flex items-center justify-center gap-2 text-slate-500 text-sm animate-pulse py-2">
-                    <Loader2 size={16} className="animate-spin" />
-                    <span>Esperando ilustración...</span>
-                </div>
-            )}
-
             {/* Choices Zone - Not Fixed anymore, distinct area */}
             <div className="pt-4 pb-2">
-                {areChoicesVisible ? (
+                {areChoicesVisible && currentTurn ? (
                     <div className="grid grid-cols-1 gap-3 animate-fade-in-up" ref={bottomRef}>
-                        <div className="text-center text-sm text-slate-500 mb-2 uppercase tracking-widest font-bold">¿Qué harás?</div>
-                        {currentTurn.choices.map((choice) => (
+                        <div className="text-center text-sm text-slate-500 mb-2 uppercase tracking-widest font-bold">{choicesHeading}</div>
+                        {currentTurn.choices.map((choice, idx) => (
                         <Button
                             key={choice.id}
                             onClick={() => handleChoice(choice)}
                             disabled={isStoryLoading}
+                            aria-keyshortcuts={idx < 4 ? String(idx + 1) : undefined}
                             variant="secondary"
                             className="text-left h-auto py-4 px-5 border-slate-700 hover:border-indigo-500 hover:bg-slate-800 shadow-lg group relative overflow-hidden"
                         >
-                            <span className="relative z-10">{choice.text}</span>
+                            <span className="relative z-10">
+                              {idx < 4 && <kbd className="hidden md:inline-block mr-2 px-1.5 rounded border border-slate-600 text-xs text-slate-400 font-sans" aria-hidden="true">{idx + 1}</kbd>}
+                              {choice.text}
+                              {countVotes(votes, choice) > 0 && (
+                                <span className="ml-2 px-1.5 rounded-full bg-emerald-500/20 text-emerald-300 text-xs font-normal">{t.party.votes(countVotes(votes, choice))}</span>
+                              )}
+                            </span>
+                            {choice.check && (
+                              <span className="relative z-10 flex items-center gap-1 mt-2 text-xs font-normal text-amber-300/80">
+                                <Dices size={14} />
+                                {t.attributes[choice.check.skill]} · {t.game.difficulty(choice.check.difficulty)} · {Math.round(successChance(effectiveAttributes(character.attributes, inventory), choice.check) * 100)}%
+                              </span>
+                            )}
                             <div className="absolute inset-0 bg-indigo-500/10 transform -translate-x-full group-hover:translate-x-0 transition-transform duration-300" />
                         </Button>
                         ))}
+                        <CustomActionInput onSubmit={handleCustomAction} disabled={isStoryLoading} />
+                        {autoChoice && <p className="text-center text-xs text-indigo-300/80">{t.narration.autoPick(AUTO_ADVANCE_MS / 1000)}</p>}
+                        <p className="hidden md:block text-center text-xs text-slate-600">{t.a11y.shortcuts}</p>
                     </div>
                 ) : (
                    /* Invisible placeholder to prevent heavy layout shift if needed, or just nothing */
@@ -415,47 +1133,128 @@ const App: React.FC = () => {
                 )}
             </div>
             
-            {/* Loading Indicator for Next Turn logic */}
-            {isStoryLoading && (
-                 <div className="flex justify-center py-8">
+            {/* Loading Indicator for Next Turn logic (until its first words stream in) */}
+            {isStoryLoading && !isStreamingTurn && (
+                 <div className="flex flex-col items-center gap-3 py-8">
+                    {currentTurn?.checkResult && (
+                      <div className={`flex items-center gap-2 text-sm font-bold animate-fade-in ${currentTurn.checkResult.success ? 'text-emerald-400' : 'text-rose-400'}`}>
+                        <Dices size={18} />
+                        {t.attributes[currentTurn.checkResult.skill]}: {currentTurn.checkResult.roll} + {currentTurn.checkResult.modifier} = {currentTurn.checkResult.total}
+                        {' '}({currentTurn.checkResult.success ? t.game.success : t.game.failure})
+                      </div>
+                    )}
                     <Loader2 className="animate-spin text-indigo-400" size={32} />
                  </div>
             )}
           </div>
         )}
+
+        {/* Failed turn: retry without advancing the story */}
+        {turnError && (
+          <TurnErrorPanel kind={turnError.kind} onRetry={retryTurn} />
+        )}
       </div>
     </div>
   );
 
-  const renderGameOver = () => (
-    <div className="flex flex-col items-center justify-center min-h-[80vh] text-center space-y-8 animate-fade-in">
-      <div className="bg-red-500/10 p-6 rounded-full ring-1 ring-red-500/50">
-        <Skull size={64} className="text-red-500" />
-      </div>
-      
-      <div className="space-y-4 max-w-lg">
-        <h2 className="text-4xl font-bold text-white">Has Caído</h2>
-        <p className="text-slate-400 text-lg">
-          Tu historia ha llegado a un final trágico. Pero en el multiverso, cada final es un nuevo comienzo.
-        </p>
-        <div className="bg-slate-900 p-4 rounded-lg border border-slate-800 text-left text-sm text-slate-500">
-          <p>Causa: {hp <= 0 ? "Muerte por heridas (HP: 0)" : "Final de la trama"}</p>
-          <p>Objetos Finales: {inventory.join(', ') || "Ninguno"}</p>
+  const renderGameOver = () => {
+    const { icon: Icon, color, ring } = ENDING_STYLES[ending];
+    const stats = runStats(history);
+
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[80vh] text-center space-y-8 animate-fade-in">
+        <div className={`p-6 rounded-full ring-1 ${ring}`}>
+          <Icon size={64} className={color} />
+        </div>
+        
+        <div className="space-y-4 max-w-lg">
+          <h2 className="text-4xl font-bold text-white">{t.endings[ending].title}</h2>
+          <p className="text-slate-400 text-lg">
+            {t.endings[ending].epilogue}
+          </p>
+          <div className="grid grid-cols-3 gap-3">
+            {[
+              [t.gameOver.turnsSurvived, stats.turns],
+              [t.gameOver.damageTaken, stats.damageTaken],
+              [t.gameOver.itemsCollected, stats.itemsCollected],
+            ].map(([label, value]) => (
+              <div key={label} className="bg-slate-900 p-3 rounded-lg border border-slate-800">
+                <p className="text-2xl font-bold text-white">{value}</p>
+                <p className="text-xs text-slate-500 uppercase tracking-wider">{label}</p>
+              </div>
+            ))}
+          </div>
+          {party && <PartyPanel party={party} votes={[]} />}
+          <div className="bg-slate-900 p-4 rounded-lg border border-slate-800 text-left text-sm text-slate-500 space-y-2">
+            {memory.facts.goals.length > 0 && (
+              <div>
+                <p>{t.game.goals}:</p>
+                <ul className="space-y-1 mt-1">
+                  {memory.facts.goals.map(goal => (
+                    <li key={goal.text} className={`flex items-center gap-2 ${goal.ending === ending ? 'text-emerald-400' : ''}`}>
+                      {goal.ending === ending ? <CheckCircle2 size={14} /> : <Target size={14} />}
+                      {goal.text}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <p>{t.gameOver.finalItems}: {inventory.map(item => item.quantity > 1 ? `${item.name} ×${item.quantity}` : item.name).join(', ') || t.gameOver.none}</p>
+          </div>
+          <div className="flex items-center justify-center gap-2 text-sm text-slate-500">
+            <Download size={16} />
+            <span>{t.storybook.export}</span>
+            {(['html', 'markdown', 'json'] as ExportFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                className="px-3 py-1 rounded-full border border-slate-700 text-slate-300 hover:text-white hover:border-indigo-500 transition-colors"
+              >
+                {format === 'markdown' ? 'Markdown' : format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+  
+        <div className="flex flex-col sm:flex-row gap-3">
+          {history.length > 1 && !isPermadeath && (
+            <Button onClick={() => setIsMapOpen(true)} variant="secondary" className="px-8">
+              <span className="flex items-center justify-center gap-2">
+                <GitBranch size={18} /> {t.gameOver.rewind}
+              </span>
+            </Button>
+          )}
+          <Button onClick={resetGame} variant="primary" className="px-8">
+            {t.gameOver.restart}
+          </Button>
         </div>
       </div>
-
-      <Button onClick={resetGame} variant="primary" className="px-8">
-        Reencarnar
-      </Button>
-    </div>
-  );
+    );
+  };
 
   return (
-    <GameLayout>
-      {mode === 'START' && renderStartScreen()}
-      {mode === 'PLAYING' && renderGameScreen()}
-      {mode === 'GAMEOVER' && renderGameOver()}
-    </GameLayout>
+    <I18nContext.Provider value={t}>
+      <GameLayout>
+        <div className="sr-only" aria-live="polite">{announcement}</div>
+        {mode === 'START' && (isGuest && session ? (
+          <SessionGuestView
+            session={session}
+            reducedMotion={reducedMotion}
+            onChoice={choice => sessionRef.current?.send({ type: 'choice', choice })}
+            onLeave={leaveSession}
+          />
+        ) : renderStartScreen())}
+        {mode === 'PLAYING' && renderGameScreen()}
+        {mode === 'GAMEOVER' && renderGameOver()}
+        <StoryMap
+          tree={storyTree}
+          isOpen={isMapOpen}
+          canRewind={!isStoryLoading && !isPermadeath}
+          onRewind={goToNode}
+          onClose={() => setIsMapOpen(false)}
+        />
+      </GameLayout>
+    </I18nContext.Provider>
   );
 };
 
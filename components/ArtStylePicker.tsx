@@ -0,0 +1,46 @@
+import React from 'react';
+import { Palette, ImageOff } from 'lucide-react';
+import { ArtStyle } from '../types';
+import { ART_STYLES } from '../services/sceneImages';
+import { useI18n } from '../services/i18n';
+
+interface ArtStylePickerProps {
+  artStyle: ArtStyle;
+  imagesEnabled: boolean;
+  onChange: (artStyle: ArtStyle) => void;
+  onToggleImages: () => void;
+}
+
+export const ArtStylePicker: React.FC<ArtStylePickerProps> = ({ artStyle, imagesEnabled, onChange, onToggleImages }) => {
+  const t = useI18n();
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm" title={t.start.artStyle}>
+      <Palette size={16} className="text-slate-500" />
+      {ART_STYLES.map(option => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          disabled={!imagesEnabled}
+          className={`px-3 py-1 rounded-full transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+            option === artStyle
+              ? 'bg-indigo-600/20 text-indigo-300 ring-1 ring-indigo-500/50'
+              : 'text-slate-500 hover:text-slate-200 hover:bg-slate-800'
+          }`}
+        >
+          {t.artStyles[option]}
+        </button>
+      ))}
+      <button
+        onClick={onToggleImages}
+        className={`flex items-center gap-1 px-3 py-1 rounded-full transition-colors ${
+          imagesEnabled
+            ? 'text-slate-500 hover:text-slate-200 hover:bg-slate-800'
+            : 'bg-amber-500/10 text-amber-300 ring-1 ring-amber-500/50'
+        }`}
+      >
+        <ImageOff size={14} /> {t.start.noImages}
+      </button>
+    </div>
+  );
+};
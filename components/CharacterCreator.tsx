@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Loader2, Minus, Plus, UserRound } from 'lucide-react';
+import { Button } from './Button';
+import { Archetype, Attributes, Character } from '../types';
+import { ATTRIBUTES, BONUS_POINTS, MAX_ATTRIBUTE } from '../services/character';
+import { useI18n } from '../services/i18n';
+
+interface CharacterCreatorProps {
+  theme: string;
+  archetypes: Archetype[] | null; // null while they are being suggested
+  isStarting: boolean;
+  player?: { number: number; count: number; takenNames: string[] }; // Party runs: one creator per player, in turn
+  onConfirm: (character: Character) => void;
+  onBack: () => void;
+}
+
+const NO_BONUS: Attributes = { strength: 0, agility: 0, wits: 0 };
+
+export const CharacterCreator: React.FC<CharacterCreatorProps> = ({ theme, archetypes, isStarting, player, onConfirm, onBack }) => {
+  const t = useI18n();
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState(0);
+  const [bonus, setBonus] = useState<Attributes>(NO_BONUS);
+
+  const archetype = archetypes?.[selected];
+  const spentBonus = ATTRIBUTES.reduce((sum, attr) => sum + bonus[attr], 0);
+  // Players are addressed by name, so two can't share one
+  const isNameTaken = !!player?.takenNames.some(taken => taken.toLowerCase() === name.trim().toLowerCase());
+  const isLastPlayer = !player || player.number === player.count;
+
+  const attributeValue = (attr: keyof Attributes) => (archetype?.attributes[attr] ?? 0) + bonus[attr];
+
+  const selectArchetype = (idx: number) => {
+    setSelected(idx);
+    setBonus(NO_BONUS);
+  };
+
+  const adjust = (attr: keyof Attributes, delta: number) => {
+    const next = bonus[attr] + delta;
+    if (next < 0 || spentBonus + delta > BONUS_POINTS || attributeValue(attr) + delta > MAX_ATTRIBUTE) return;
+    setBonus({ ...bonus, [attr]: next });
+  };
+
+  const handleConfirm = () => {
+    if (!archetype || !name.trim() || isNameTaken) return;
+    onConfirm({
+      name: name.trim(),
+      archetype: archetype.name,
+      attributes: Object.fromEntries(ATTRIBUTES.map(attr => [attr, attributeValue(attr)])) as Attributes,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <button onClick={onBack} className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors" title={t.character.changeTheme}>
+          <ArrowLeft size={18} />
+        </button>
+        <div>
+          <div className="text-xs uppercase tracking-wider text-slate-500">{t.character.theme}</div>
+          <div className="text-slate-200 font-medium">{theme}</div>
+        </div>
+        {player && (
+          <div className="ml-auto text-sm font-semibold text-indigo-300">{t.party.player(player.number, player.count)}</div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <label className="text-sm font-semibold text-slate-300 uppercase tracking-wider">{t.character.name}</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={40}
+          placeholder={t.character.namePlaceholder}
+          className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all placeholder:text-slate-600"
+        />
+        {isNameTaken && <p className="text-xs text-red-400">{t.party.nameTaken}</p>}
+      </div>
+
+      <div className="space-y-3">
+        <label className="text-sm font-semibold text-slate-300 uppercase tracking-wider">{t.character.archetype}</label>
+        {archetypes === null ? (
+          <div className="flex items-center justify-center gap-2 py-6 text-slate-500 text-sm">
+            <Loader2 size={16} className="animate-spin" /> {t.character.findingArchetypes}
+          </div>
+        ) : (
+          <div className="grid gap-2">
+            {archetypes.map((option, idx) => (
+              <button
+                key={option.name}
+                onClick={() => selectArchetype(idx)}
+                className={`text-left p-3 rounded-lg transition-all ${
+                  idx === selected
+                    ? 'bg-indigo-600/20 border border-indigo-500 text-white'
+                    : 'bg-slate-800 border border-transparent text-slate-400 hover:bg-slate-700 hover:text-slate-200'
+                }`}
+              >
+                <div className="flex items-center gap-2 font-medium">
+                  <UserRound size={16} /> {option.name}
+                </div>
+                {option.description && <div className="text-xs mt-1 opacity-80">{option.description}</div>}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {archetype && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-semibold text-slate-300 uppercase tracking-wider">{t.character.attributes}</label>
+            <span className="text-xs text-slate-500">{t.character.freePoints(BONUS_POINTS - spentBonus)}</span>
+          </div>
+          {ATTRIBUTES.map(attr => (
+            <div key={attr} className="flex items-center gap-3">
+              <span className="w-24 text-sm text-slate-300">{t.attributes[attr]}</span>
+              <div className="flex-1 flex gap-1">
+                {Array.from({ length: MAX_ATTRIBUTE }, (_, i) => (
+                  <div key={i} className={`h-2 flex-1 rounded-full ${i < attributeValue(attr) ? (i < archetype.attributes[attr] ? 'bg-indigo-500' : 'bg-emerald-400') : 'bg-slate-800'}`} />
+                ))}
+              </div>
+              <button onClick={() => adjust(attr, -1)} disabled={bonus[attr] === 0} className="p-1 text-slate-400 hover:text-white disabled:opacity-30">
+                <Minus size={14} />
+              </button>
+              <button onClick={() => adjust(attr, 1)} disabled={spentBonus >= BONUS_POINTS || attributeValue(attr) >= MAX_ATTRIBUTE} className="p-1 text-slate-400 hover:text-white disabled:opacity-30">
+                <Plus size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button fullWidth onClick={handleConfirm} disabled={!archetype || !name.trim() || isNameTaken || isStarting}>
+        {isStarting ? (
+          <span className="flex items-center justify-center gap-2">
+            <Loader2 className="animate-spin" size={20} /> {t.character.generatingWorld}
+          </span>
+        ) : (
+          isLastPlayer ? t.character.startAdventure : t.party.nextPlayer
+        )}
+      </Button>
+    </div>
+  );
+};
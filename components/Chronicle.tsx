@@ -0,0 +1,82 @@
+import React from 'react';
+import { History, Heart, Plus, Minus, ChevronRight, PenLine, Dices } from 'lucide-react';
+import { GameTurn } from '../types';
+import { useI18n } from '../services/i18n';
+import { Modal } from './Modal';
+
+interface ChronicleProps {
+  turns: GameTurn[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const Chronicle: React.FC<ChronicleProps> = ({ turns, isOpen, onClose }) => {
+  const t = useI18n();
+  if (!isOpen) return null;
+
+  return (
+    <Modal title={t.chronicle.title} icon={<History size={20} />} width="max-w-2xl" onClose={onClose}>
+      <ol className="p-6 max-h-[70vh] overflow-y-auto space-y-6 border-l border-slate-800 ml-6">
+        {turns.map((turn, idx) => (
+          <li key={idx} className="relative pl-6">
+            <div className={`absolute -left-[7px] top-1.5 w-3 h-3 rounded-full ${turn.chosenChoice ? 'bg-indigo-500' : 'bg-amber-400 animate-pulse'}`} />
+            <div className="text-xs uppercase tracking-widest font-bold text-slate-500 mb-2">
+              {t.chronicle.turn(idx + 1)}{!turn.chosenChoice && ` · ${t.chronicle.now}`}
+            </div>
+
+            <div className="flex gap-4">
+              {turn.imageUrl && (
+                <img src={turn.imageUrl} alt={t.chronicle.sceneOfTurn(idx + 1)} className="w-24 h-16 object-cover rounded-md border border-slate-800 shrink-0" />
+              )}
+              <p className="text-slate-300 text-sm leading-relaxed whitespace-pre-wrap">{turn.text}</p>
+            </div>
+
+            <div className="flex flex-wrap gap-2 mt-3 text-xs">
+              {turn.hpChange !== 0 && (
+                <span className={`flex items-center gap-1 px-2 py-0.5 rounded border ${turn.hpChange < 0 ? 'text-rose-400 border-rose-500/30 bg-rose-500/10' : 'text-emerald-400 border-emerald-500/30 bg-emerald-500/10'}`}>
+                  <Heart size={12} /> {turn.hpChange > 0 ? `+${turn.hpChange}` : turn.hpChange}
+                </span>
+              )}
+              {turn.inventoryAdded.map(item => (
+                <span key={`+${item.id}`} className="flex items-center gap-1 px-2 py-0.5 rounded border text-amber-400 border-amber-500/30 bg-amber-500/10">
+                  <Plus size={12} /> {item.quantity > 1 && `${item.quantity} `}{item.name}
+                </span>
+              ))}
+              {turn.inventoryRemoved.map(item => (
+                <span key={`-${item.id}`} className="flex items-center gap-1 px-2 py-0.5 rounded border text-slate-400 border-slate-600 bg-slate-800/50 line-through">
+                  <Minus size={12} /> {item.quantity > 1 && `${item.quantity} `}{item.name}
+                </span>
+              ))}
+            </div>
+
+            {turn.chosenChoice && (
+              turn.chosenChoice.isCustom ? (
+                <div className="flex items-center gap-2 mt-3 text-sm text-emerald-300 italic" title={t.chronicle.yourAction}>
+                  <PenLine size={14} />
+                  {turn.chosenBy && <span className="not-italic text-slate-400">{turn.chosenBy}:</span>}
+                  <span>“{turn.chosenChoice.text}”</span>
+                </div>
+              ) : (
+                <div className="flex items-center gap-1 mt-3 text-sm text-indigo-300">
+                  <ChevronRight size={16} />
+                  {turn.chosenBy && <span className="text-slate-400">{turn.chosenBy}:</span>}
+                  <span>{turn.chosenChoice.text}</span>
+                </div>
+              )
+            )}
+
+            {turn.checkResult && (
+              <div className={`flex items-center gap-1 mt-1 ml-5 text-xs ${turn.checkResult.success ? 'text-emerald-400' : 'text-rose-400'}`}>
+                <Dices size={12} />
+                <span>
+                  {t.attributes[turn.checkResult.skill]}: {turn.checkResult.roll} + {turn.checkResult.modifier} = {turn.checkResult.total} / {turn.checkResult.difficulty}
+                  {' · '}{turn.checkResult.success ? t.game.success : t.game.failure}
+                </span>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </Modal>
+  );
+};
@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { PenLine, Send } from 'lucide-react';
+import { useI18n } from '../services/i18n';
+
+// Long enough for a sentence or two, short enough to stop prompt essays
+export const MAX_ACTION_LENGTH = 200;
+
+interface CustomActionInputProps {
+  disabled?: boolean;
+  onSubmit: (action: string) => void;
+}
+
+export const CustomActionInput: React.FC<CustomActionInputProps> = ({ disabled = false, onSubmit }) => {
+  const t = useI18n();
+  const [action, setAction] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = action.trim();
+    if (!trimmed || disabled) return;
+    onSubmit(trimmed);
+    setAction('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-2 bg-slate-900/60 border border-dashed border-slate-700 rounded-lg p-2 focus-within:border-emerald-500/60 transition-colors">
+      <PenLine size={18} className="text-emerald-400 shrink-0 ml-2" />
+      <input
+        type="text"
+        value={action}
+        onChange={(e) => setAction(e.target.value)}
+        maxLength={MAX_ACTION_LENGTH}
+        disabled={disabled}
+        placeholder={t.game.customAction}
+        className="flex-1 bg-transparent p-2 text-slate-100 outline-none placeholder:text-slate-600"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !action.trim()}
+        className="p-2 rounded-md text-emerald-400 hover:bg-slate-800 hover:text-emerald-300 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+        title={t.game.tryAction}
+      >
+        <Send size={18} />
+      </button>
+    </form>
+  );
+};
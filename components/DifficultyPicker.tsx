@@ -0,0 +1,39 @@
+import React from 'react';
+import { Skull } from 'lucide-react';
+import { Difficulty } from '../types';
+import { DIFFICULTIES } from '../services/difficulty';
+import { useI18n } from '../services/i18n';
+
+interface DifficultyPickerProps {
+  difficulty: Difficulty;
+  onChange: (difficulty: Difficulty) => void;
+}
+
+export const DifficultyPicker: React.FC<DifficultyPickerProps> = ({ difficulty, onChange }) => {
+  const t = useI18n();
+
+  return (
+    <div className="space-y-1 text-sm text-center">
+      <div className="flex flex-wrap items-center justify-center gap-2" title={t.start.difficulty}>
+        <Skull size={16} className="text-slate-500" />
+        {DIFFICULTIES.map(option => (
+          <button
+            key={option}
+            onClick={() => onChange(option)}
+            aria-pressed={option === difficulty}
+            className={`px-3 py-1 rounded-full transition-colors ${
+              option === difficulty
+                ? option === 'hardcore'
+                  ? 'bg-red-600/20 text-red-300 ring-1 ring-red-500/50'
+                  : 'bg-indigo-600/20 text-indigo-300 ring-1 ring-indigo-500/50'
+                : 'text-slate-500 hover:text-slate-200 hover:bg-slate-800'
+            }`}
+          >
+            {t.difficulties[option].name}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500 max-w-sm mx-auto">{t.difficulties[difficulty].description}</p>
+    </div>
+  );
+};
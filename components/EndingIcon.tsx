@@ -0,0 +1,21 @@
+import React from 'react';
+import { Skull, Trophy, DoorOpen, Flag } from 'lucide-react';
+import { EndingKind } from '../types';
+
+// Shared by the end screen, the path map and the save slots so each ending always looks the same
+export const ENDING_STYLES: Record<EndingKind, { icon: typeof Skull; color: string; ring: string }> = {
+  death: { icon: Skull, color: 'text-red-500', ring: 'bg-red-500/10 ring-red-500/50' },
+  victory: { icon: Trophy, color: 'text-amber-400', ring: 'bg-amber-400/10 ring-amber-400/50' },
+  escape: { icon: DoorOpen, color: 'text-emerald-400', ring: 'bg-emerald-400/10 ring-emerald-400/50' },
+  abandoned: { icon: Flag, color: 'text-slate-400', ring: 'bg-slate-400/10 ring-slate-400/50' },
+};
+
+interface EndingIconProps {
+  ending: EndingKind;
+  size?: number;
+}
+
+export const EndingIcon: React.FC<EndingIconProps> = ({ ending, size = 12 }) => {
+  const { icon: Icon, color } = ENDING_STYLES[ending];
+  return <Icon size={size} className={color} />;
+};
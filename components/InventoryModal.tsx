@@ -0,0 +1,94 @@
+import React from 'react';
+import { Backpack, Box, Eye, Sparkles, Trash2 } from 'lucide-react';
+import { Item, ItemAction, ItemCategory } from '../types';
+import { countItems } from '../services/inventory';
+import { useI18n } from '../services/i18n';
+import { Modal } from './Modal';
+
+interface InventoryModalProps {
+  inventory: Item[];
+  isOpen: boolean;
+  canAct: boolean; // Item actions spend a turn, so they wait for the choices like everything else
+  onAction: (kind: ItemAction['kind'], item: Item) => void;
+  onClose: () => void;
+}
+
+const CATEGORY_STYLES: Record<ItemCategory, string> = {
+  weapon: 'text-rose-300 border-rose-500/30 bg-rose-500/10',
+  consumable: 'text-emerald-300 border-emerald-500/30 bg-emerald-500/10',
+  key: 'text-amber-300 border-amber-500/30 bg-amber-500/10',
+  quest: 'text-indigo-300 border-indigo-500/30 bg-indigo-500/10',
+};
+
+export const InventoryModal: React.FC<InventoryModalProps> = ({ inventory, isOpen, canAct, onAction, onClose }) => {
+  const t = useI18n();
+  if (!isOpen) return null;
+
+  const describeEffects = ({ effects }: Item) => [
+    effects?.heal && t.inventory.heal(effects.heal),
+    effects?.skillBonus && `+${effects.skillBonus.amount} ${t.attributes[effects.skillBonus.skill]}`,
+  ].filter(Boolean).join(' · ');
+
+  const act = (kind: ItemAction['kind'], item: Item) => {
+    onAction(kind, item);
+    onClose();
+  };
+
+  return (
+    <Modal title={t.inventory.title} icon={<Backpack size={20} />} onClose={onClose}>
+      <div className="p-6 min-h-[200px] max-h-[60vh] overflow-y-auto">
+        {inventory.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-slate-500 gap-3 py-8">
+            <Box size={40} className="opacity-50" />
+            <p>{t.inventory.empty}</p>
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {inventory.map(item => (
+              <li key={item.id} className="bg-slate-950/50 p-3 rounded-lg border border-slate-800 text-slate-200 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{item.name}</span>
+                  {item.quantity > 1 && <span className="text-xs text-slate-400">×{item.quantity}</span>}
+                  <span className={`ml-auto text-[10px] uppercase tracking-wider px-2 py-0.5 rounded border ${CATEGORY_STYLES[item.category]}`}>
+                    {t.inventory.categories[item.category]}
+                  </span>
+                </div>
+                {item.description && <p className="text-xs text-slate-400">{item.description}</p>}
+                {item.effects && <p className="text-xs text-emerald-400">{describeEffects(item)}</p>}
+                <div className="flex gap-1 pt-1">
+                  <button
+                    onClick={() => act('use', item)}
+                    disabled={!canAct}
+                    aria-label={`${t.inventory.use} ${item.name}`}
+                    className="flex items-center gap-1 px-2 py-1 text-xs rounded text-slate-300 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <Sparkles size={12} /> {t.inventory.use}
+                  </button>
+                  <button
+                    onClick={() => act('inspect', item)}
+                    disabled={!canAct}
+                    aria-label={`${t.inventory.inspect} ${item.name}`}
+                    className="flex items-center gap-1 px-2 py-1 text-xs rounded text-slate-300 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <Eye size={12} /> {t.inventory.inspect}
+                  </button>
+                  <button
+                    onClick={() => act('drop', item)}
+                    disabled={!canAct}
+                    aria-label={`${t.inventory.drop} ${item.name}`}
+                    className="flex items-center gap-1 px-2 py-1 text-xs rounded text-slate-400 hover:text-rose-300 hover:bg-slate-800 disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <Trash2 size={12} /> {t.inventory.drop}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="bg-slate-800/50 p-3 text-center text-xs text-slate-500 border-t border-slate-800">
+        {t.inventory.total(countItems(inventory))}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { LogIn } from 'lucide-react';
+import { useI18n } from '../services/i18n';
+
+interface JoinRoomFormProps {
+  error?: string; // Why the last attempt was turned away
+  onJoin: (room: string, name: string) => void;
+}
+
+// Start screen entry to someone else's room
+export const JoinRoomForm: React.FC<JoinRoomFormProps> = ({ error, onJoin }) => {
+  const t = useI18n();
+  const [room, setRoom] = useState('');
+  const [name, setName] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!room.trim() || !name.trim()) return;
+    onJoin(room.trim().toUpperCase(), name.trim());
+  };
+
+  const inputClass = "min-w-0 bg-slate-950 border border-slate-700 rounded-lg p-2 text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all placeholder:text-slate-600";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <label className="text-sm font-semibold text-slate-300 uppercase tracking-wider">{t.session.join}</label>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={room}
+          onChange={(e) => setRoom(e.target.value.toUpperCase())}
+          maxLength={5}
+          placeholder={t.session.codePlaceholder}
+          aria-label={t.session.code}
+          className={`${inputClass} w-24 uppercase tracking-widest text-center`}
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={40}
+          placeholder={t.session.namePlaceholder}
+          aria-label={t.session.namePlaceholder}
+          className={`${inputClass} flex-1`}
+        />
+        <button
+          type="submit"
+          disabled={!room.trim() || !name.trim()}
+          className="p-2 rounded-lg text-indigo-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 transition-colors"
+          title={t.session.joinButton}
+        >
+          <LogIn size={20} />
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </form>
+  );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import { BookUser, Flag, TrendingDown, TrendingUp, Users } from 'lucide-react';
+import { FactionStanding, Npc, NpcStance } from '../types';
+import { MAX_TRUST } from '../services/relationships';
+import { useI18n } from '../services/i18n';
+import { Modal } from './Modal';
+
+interface JournalModalProps {
+  npcs: Npc[];
+  factions: FactionStanding[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const STANCE_STYLES: Record<NpcStance, string> = {
+  ally: 'text-emerald-300 border-emerald-500/30 bg-emerald-500/10',
+  neutral: 'text-slate-300 border-slate-500/30 bg-slate-500/10',
+  hostile: 'text-rose-300 border-rose-500/30 bg-rose-500/10',
+};
+
+// Trust or reputation as a bar centred on zero, with the last change beside it
+const Standing: React.FC<{ label: string; value: number; lastChange: number }> = ({ label, value, lastChange }) => {
+  const width = `${(Math.abs(value) / MAX_TRUST) * 50}%`;
+  return (
+    <div className="flex items-center gap-2 text-xs text-slate-400" aria-label={`${label}: ${value}`}>
+      <span className="w-20 shrink-0">{label}</span>
+      <div className="relative flex-1 h-1.5 rounded-full bg-slate-800">
+        <div className="absolute top-0 bottom-0 left-1/2 w-px bg-slate-600" />
+        <div
+          className={`absolute top-0 bottom-0 rounded-full ${value >= 0 ? 'left-1/2 bg-emerald-400' : 'right-1/2 bg-rose-400'}`}
+          style={{ width }}
+        />
+      </div>
+      <span className="w-8 text-right tabular-nums">{value > 0 ? `+${value}` : value}</span>
+      {lastChange > 0 && <TrendingUp size={12} className="text-emerald-400" aria-hidden="true" />}
+      {lastChange < 0 && <TrendingDown size={12} className="text-rose-400" aria-hidden="true" />}
+    </div>
+  );
+};
+
+// The "Personajes" journal: everyone met, how they feel about the player, and where the player stands with each faction
+export const JournalModal: React.FC<JournalModalProps> = ({ npcs, factions, isOpen, onClose }) => {
+  const t = useI18n();
+  if (!isOpen) return null;
+
+  return (
+    <Modal title={t.journal.title} icon={<BookUser size={20} />} onClose={onClose}>
+      <div className="p-6 min-h-[200px] max-h-[60vh] overflow-y-auto space-y-6">
+        {npcs.length === 0 ? (
+          <div className="flex flex-col items-center justify-center text-slate-500 gap-3 py-8">
+            <Users size={40} className="opacity-50" />
+            <p>{t.journal.empty}</p>
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {npcs.map(npc => (
+              <li key={npc.name} className="bg-slate-950/50 p-3 rounded-lg border border-slate-800 text-slate-200 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{npc.name}</span>
+                  {npc.faction && <span className="text-xs text-slate-500">{npc.faction}</span>}
+                  <span className={`ml-auto text-[10px] uppercase tracking-wider px-2 py-0.5 rounded border ${STANCE_STYLES[npc.stance]}`}>
+                    {t.journal.stances[npc.stance]}
+                  </span>
+                </div>
+                {npc.description && <p className="text-xs text-slate-400">{npc.description}</p>}
+                <Standing label={t.journal.trust} value={npc.trust} lastChange={npc.lastChange} />
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {factions.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-300 uppercase tracking-wider">
+              <Flag size={14} /> {t.journal.factions}
+            </h3>
+            <ul className="space-y-2">
+              {factions.map(faction => (
+                <li key={faction.name} className="bg-slate-950/50 p-3 rounded-lg border border-slate-800 space-y-2">
+                  <span className="font-medium text-slate-200">{faction.name}</span>
+                  <Standing label={t.journal.reputation} value={faction.reputation} lastChange={faction.lastChange} />
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { Language } from '../types';
+import { LANGUAGES, MESSAGES, useI18n } from '../services/i18n';
+
+interface LanguagePickerProps {
+  language: Language;
+  onChange: (language: Language) => void;
+}
+
+export const LanguagePicker: React.FC<LanguagePickerProps> = ({ language, onChange }) => {
+  const t = useI18n();
+
+  return (
+    <div className="flex items-center justify-center gap-2 text-sm" title={t.start.language}>
+      <Languages size={16} className="text-slate-500" />
+      {LANGUAGES.map(option => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          className={`px-3 py-1 rounded-full transition-colors ${
+            option === language
+              ? 'bg-indigo-600/20 text-indigo-300 ring-1 ring-indigo-500/50'
+              : 'text-slate-500 hover:text-slate-200 hover:bg-slate-800'
+          }`}
+        >
+          {MESSAGES[option].languageName}
+        </button>
+      ))}
+    </div>
+  );
+};
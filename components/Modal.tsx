@@ -0,0 +1,90 @@
+import React, { useEffect, useId, useRef } from 'react';
+import { X } from 'lucide-react';
+import { useI18n } from '../services/i18n';
+
+interface ModalProps {
+  title: string;
+  icon: React.ReactNode;
+  width?: string; // Tailwind max-width class
+  onClose: () => void;
+  children: React.ReactNode;
+}
+
+const FOCUSABLE = 'button:not([disabled]), [href], input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Dialog shell shared by the game's panels: Escape closes it, Tab stays inside it,
+// and focus goes back to whatever opened it.
+export const Modal: React.FC<ModalProps> = ({ title, icon, width = 'max-w-md', onClose, children }) => {
+  const t = useI18n();
+  const titleId = useId();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  // Callers pass inline handlers; the keyboard listener must not be rebound (and refocus) on every render
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    const opener = document.activeElement as HTMLElement | null;
+    const focusables = (): HTMLElement[] => Array.from(dialog.querySelectorAll(FOCUSABLE));
+    (focusables()[0] ?? dialog).focus();
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCloseRef.current();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+      const items = focusables();
+      if (items.length === 0) {
+        e.preventDefault();
+        return;
+      }
+      const first = items[0];
+      const last = items[items.length - 1];
+      const active = document.activeElement;
+      if (!dialog.contains(active)) {
+        e.preventDefault();
+        first.focus();
+      } else if (e.shiftKey && active === first) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && active === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('keydown', onKeyDown);
+      opener?.focus();
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className={`w-full ${width} bg-slate-900 border border-slate-700 rounded-xl shadow-2xl overflow-hidden focus:outline-none`}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="bg-slate-800 p-4 flex items-center justify-between border-b border-slate-700">
+          <h2 id={titleId} className="flex items-center gap-2 text-indigo-400 font-cinzel font-bold text-lg">
+            {icon}
+            <span>{title}</span>
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" aria-label={t.a11y.close} title={t.a11y.close}>
+            <X size={20} />
+          </button>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Pause, Play, SkipForward, Timer } from 'lucide-react';
+import { NARRATION_RATES } from '../services/narration';
+import { useI18n } from '../services/i18n';
+
+interface NarrationControlsProps {
+  isPaused: boolean;
+  canControl: boolean; // Something is being read aloud
+  rate: number;
+  voices: SpeechSynthesisVoice[]; // Only the ones speaking the game language
+  voiceURI?: string;
+  autoAdvance: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onSkip: () => void;
+  onRateChange: (rate: number) => void;
+  onVoiceChange: (voiceURI: string) => void;
+  onAutoAdvanceChange: (autoAdvance: boolean) => void;
+}
+
+export const NarrationControls: React.FC<NarrationControlsProps> = ({
+  isPaused, canControl, rate, voices, voiceURI, autoAdvance, onPause, onResume, onSkip, onRateChange, onVoiceChange, onAutoAdvanceChange,
+}) => {
+  const t = useI18n();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 pt-4 mt-4 border-t border-white/5 text-sm text-slate-400">
+      <button
+        onClick={isPaused ? onResume : onPause}
+        disabled={!canControl}
+        className="p-2 rounded-full hover:bg-slate-800 hover:text-white transition-colors disabled:opacity-30"
+        title={isPaused ? t.narration.resume : t.narration.pause}
+      >
+        {isPaused ? <Play size={16} /> : <Pause size={16} />}
+      </button>
+      <button
+        onClick={onSkip}
+        disabled={!canControl}
+        className="p-2 rounded-full hover:bg-slate-800 hover:text-white transition-colors disabled:opacity-30"
+        title={t.narration.skip}
+      >
+        <SkipForward size={16} />
+      </button>
+      <button
+        onClick={() => onAutoAdvanceChange(!autoAdvance)}
+        aria-pressed={autoAdvance}
+        className={`p-2 rounded-full transition-colors ${
+          autoAdvance ? 'bg-indigo-600/20 text-indigo-300 ring-1 ring-indigo-500/50' : 'hover:bg-slate-800 hover:text-white'
+        }`}
+        title={t.narration.autoAdvance}
+      >
+        <Timer size={16} />
+      </button>
+      <div className="flex items-center gap-1" title={t.narration.rate}>
+        {NARRATION_RATES.map(option => (
+          <button
+            key={option}
+            onClick={() => onRateChange(option)}
+            className={`px-2 py-0.5 rounded-full text-xs transition-colors ${
+              option === rate
+                ? 'bg-indigo-600/20 text-indigo-300 ring-1 ring-indigo-500/50'
+                : 'hover:text-slate-200 hover:bg-slate-800'
+            }`}
+          >
+            {option}×
+          </button>
+        ))}
+      </div>
+      {voices.length > 0 ? (
+        <select
+          value={voiceURI}
+          onChange={e => onVoiceChange(e.target.value)}
+          className="ml-auto max-w-[12rem] bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-indigo-500"
+          title={t.narration.voice}
+        >
+          {voices.map(voice => (
+            <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name}</option>
+          ))}
+        </select>
+      ) : (
+        <span className="ml-auto text-xs text-slate-500">{t.narration.noVoice}</span>
+      )}
+    </div>
+  );
+};
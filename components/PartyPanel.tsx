@@ -0,0 +1,46 @@
+import React from 'react';
+import { Crown, Heart, Skull, Vote } from 'lucide-react';
+import { Party, PartyVote } from '../types';
+import { isStanding, nextVoter } from '../services/party';
+import { useI18n } from '../services/i18n';
+
+interface PartyPanelProps {
+  party: Party;
+  votes: PartyVote[];
+}
+
+// Who is at the table, whose turn it is and, when voting, who still has to vote
+export const PartyPanel: React.FC<PartyPanelProps> = ({ party, votes }) => {
+  const t = useI18n();
+  const voter = party.mode === 'vote' ? nextVoter(party, votes) : undefined;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-4 text-xs" aria-label={t.party.members}>
+      {party.members.map((member, idx) => {
+        const vote = votes.find(cast => cast.voter === idx);
+        return (
+          <div
+            key={member.character.name}
+            className={`flex items-center gap-1.5 px-2 py-1 rounded-lg border ${
+              idx === party.active
+                ? 'border-indigo-500/60 bg-indigo-500/10 text-indigo-200'
+                : idx === voter
+                  ? 'border-amber-500/60 bg-amber-500/10 text-amber-200'
+                  : 'border-slate-700 bg-slate-800/50 text-slate-400'
+            } ${isStanding(member) ? '' : 'opacity-50 line-through'}`}
+            title={vote ? vote.choice.text : idx === party.active ? t.party.turnOf(member.character.name) : member.character.archetype}
+          >
+            {idx === party.active && <Crown size={12} />}
+            <span className="font-medium">{member.character.name}</span>
+            {isStanding(member) ? (
+              <span className="flex items-center gap-0.5 text-rose-400"><Heart size={11} /> {member.hp}</span>
+            ) : (
+              <span className="flex items-center gap-0.5 text-slate-500"><Skull size={11} /> {t.party.fallen}</span>
+            )}
+            {vote && <Vote size={12} className="text-emerald-400" aria-label={t.party.voted} />}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
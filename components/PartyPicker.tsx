@@ -0,0 +1,47 @@
+import React from 'react';
+import { Users } from 'lucide-react';
+import { PartyMode } from '../types';
+import { MAX_PARTY_SIZE, PARTY_MODES } from '../services/party';
+import { useI18n } from '../services/i18n';
+
+interface PartyPickerProps {
+  size: number; // 1 plays solo
+  mode: PartyMode;
+  onSizeChange: (size: number) => void;
+  onModeChange: (mode: PartyMode) => void;
+}
+
+export const PartyPicker: React.FC<PartyPickerProps> = ({ size, mode, onSizeChange, onModeChange }) => {
+  const t = useI18n();
+
+  const optionClass = (isSelected: boolean) => `px-3 py-1 rounded-full transition-colors ${
+    isSelected
+      ? 'bg-indigo-600/20 text-indigo-300 ring-1 ring-indigo-500/50'
+      : 'text-slate-500 hover:text-slate-200 hover:bg-slate-800'
+  }`;
+
+  return (
+    <div className="space-y-1 text-sm text-center">
+      <div className="flex flex-wrap items-center justify-center gap-2" title={t.party.players}>
+        <Users size={16} className="text-slate-500" />
+        {Array.from({ length: MAX_PARTY_SIZE }, (_, idx) => idx + 1).map(option => (
+          <button key={option} onClick={() => onSizeChange(option)} aria-pressed={option === size} className={optionClass(option === size)}>
+            {option === 1 ? t.party.solo : option}
+          </button>
+        ))}
+      </div>
+      {size > 1 && (
+        <>
+          <div className="flex flex-wrap items-center justify-center gap-2">
+            {PARTY_MODES.map(option => (
+              <button key={option} onClick={() => onModeChange(option)} aria-pressed={option === mode} className={optionClass(option === mode)}>
+                {t.party.modes[option].name}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 max-w-sm mx-auto">{t.party.modes[mode].description}</p>
+        </>
+      )}
+    </div>
+  );
+};
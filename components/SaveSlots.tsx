@@ -0,0 +1,50 @@
+import React from 'react';
+import { Heart, Play, Trash2, Save } from 'lucide-react';
+import { SaveSummary } from '../services/saveService';
+import { useI18n } from '../services/i18n';
+import { EndingIcon } from './EndingIcon';
+
+interface SaveSlotsProps {
+  saves: SaveSummary[];
+  onLoad: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const SaveSlots: React.FC<SaveSlotsProps> = ({ saves, onLoad, onDelete }) => {
+  const t = useI18n();
+  if (saves.length === 0) {
+    return <p className="text-sm text-slate-500 text-center py-2">{t.saves.empty}</p>;
+  }
+
+  return (
+    <ul className="space-y-2 max-h-64 overflow-y-auto">
+      {saves.map(save => (
+        <li key={save.id} className="flex items-center gap-3 bg-slate-950/50 p-3 rounded-lg border border-slate-800">
+          <Save size={16} className="text-slate-500 shrink-0" />
+          <div className="flex-1 min-w-0">
+            <div className="text-slate-200 text-sm font-medium truncate">{save.name}</div>
+            <div className="flex items-center gap-2 text-xs text-slate-500">
+              <span className="truncate">{save.theme}</span>
+              <span>·</span>
+              <span>{t.saves.turn(save.turns)}</span>
+              <span>·</span>
+              {save.ending ? (
+                <span title={t.endings[save.ending].title}><EndingIcon ending={save.ending} /></span>
+              ) : (
+                <span className="flex items-center gap-1 text-rose-400"><Heart size={12} />{save.hp}</span>
+              )}
+              <span>·</span>
+              <span>{new Date(save.savedAt).toLocaleString()}</span>
+            </div>
+          </div>
+          <button onClick={() => onLoad(save.id)} className="p-2 text-indigo-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors" title={t.saves.load}>
+            <Play size={16} />
+          </button>
+          <button onClick={() => onDelete(save.id)} className="p-2 text-slate-500 hover:text-red-400 hover:bg-slate-800 rounded-full transition-colors" title={t.saves.delete}>
+            <Trash2 size={16} />
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
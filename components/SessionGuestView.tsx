@@ -0,0 +1,178 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Heart, History, Loader2, LogOut, Radio, UserRound } from 'lucide-react';
+import { Choice } from '../types';
+import { SessionInfo, relayImageUrl } from '../services/session';
+import { endingOf } from '../services/endings';
+import { useI18n } from '../services/i18n';
+import { Button } from './Button';
+import { Chronicle } from './Chronicle';
+import { CustomActionInput } from './CustomActionInput';
+import { ENDING_STYLES } from './EndingIcon';
+import { SessionPlayers } from './SessionPlayers';
+import { Typewriter } from './Typewriter';
+
+interface SessionGuestViewProps {
+  session: SessionInfo;
+  reducedMotion: boolean;
+  onChoice: (choice: Choice) => void;
+  onLeave: () => void;
+}
+
+// A guest's screen: the host's story as last published, and a way to send choices back
+export const SessionGuestView: React.FC<SessionGuestViewProps> = ({ session, reducedMotion, onChoice, onLeave }) => {
+  const t = useI18n();
+  const { snapshot, streamingText, status } = session;
+  const [isTypingComplete, setIsTypingComplete] = useState(false);
+  const [hasSent, setHasSent] = useState(false); // A choice is on its way; the next snapshot settles it
+  const [isChronicleOpen, setIsChronicleOpen] = useState(false);
+
+  const currentTurn = snapshot && snapshot.turns.length > 0 ? snapshot.turns[snapshot.turns.length - 1] : null;
+  const isStreamingTurn = !!streamingText;
+  const text = streamingText || currentTurn?.text || '';
+
+  useEffect(() => {
+    setIsTypingComplete(false);
+  }, [text]);
+
+  // The host took a choice (this one or someone else's), moved to another turn, or wasn't there to take it
+  useEffect(() => {
+    setHasSent(false);
+  }, [snapshot?.turns.length, snapshot?.isWaiting, session.error]);
+
+  const onTextComplete = useCallback(() => {
+    setIsTypingComplete(true);
+  }, []);
+
+  const send = (choice: Choice) => {
+    setHasSent(true);
+    onChoice(choice);
+  };
+
+  const isGone = status === 'closed';
+  const isTurnOpen = !!currentTurn && !snapshot?.isWaiting && !snapshot?.isGameOver && !isStreamingTurn && isTypingComplete && !isGone;
+  const areChoicesVisible = isTurnOpen && !!snapshot?.acceptsChoices;
+  const ending = endingOf(currentTurn);
+  const EndingIcon = ENDING_STYLES[ending].icon;
+
+  return (
+    <div className="flex flex-col gap-6 pb-12 animate-fade-in">
+      <div className="sticky top-4 z-40 bg-slate-900/90 backdrop-blur-md p-4 rounded-xl border border-slate-700/50 shadow-xl space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-6">
+            <span className="flex items-center gap-2 text-indigo-300 font-bold tracking-widest" title={t.session.code}>
+              <Radio size={18} /> {session.room ?? '·····'}
+            </span>
+            {snapshot && (
+              <>
+                <span className="hidden md:flex items-center gap-2 text-slate-300">
+                  <UserRound size={18} className="text-indigo-400" />
+                  <span className="text-sm font-medium">{snapshot.character.name}</span>
+                  <span className="text-xs text-slate-500">{snapshot.character.archetype}</span>
+                </span>
+                <span className="flex items-center gap-2 text-rose-400 font-bold" aria-label={t.a11y.hp(snapshot.hp)}>
+                  <Heart /> <span>{snapshot.hp}%</span>
+                </span>
+              </>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setIsChronicleOpen(true)}
+              disabled={!snapshot}
+              className="p-2 hover:bg-slate-800 rounded-full text-slate-500 hover:text-white transition-colors disabled:opacity-30"
+              title={t.game.chronicle(snapshot?.turns.length ?? 0)}
+            >
+              <History size={20} />
+            </button>
+            <button
+              onClick={onLeave}
+              className="p-2 hover:bg-slate-800 rounded-full text-slate-500 hover:text-white transition-colors"
+              title={t.session.leave}
+            >
+              <LogOut size={20} />
+            </button>
+          </div>
+        </div>
+        <SessionPlayers players={session.players} playerId={session.playerId} />
+      </div>
+
+      <div role="status" className="text-center text-sm space-y-1">
+        {status === 'connecting' && <p className="text-slate-400">{t.session.connecting}</p>}
+        {status === 'reconnecting' && <p className="text-amber-400">{t.session.reconnecting}</p>}
+        {session.error && <p className="text-red-400">{t.session.errors[session.error]}</p>}
+        {session.closedReason && <p className="text-red-400">{t.session.closed[session.closedReason]}</p>}
+        {isGone && !session.closedReason && !session.error && <p className="text-red-400">{t.session.lost}</p>}
+      </div>
+
+      {!currentTurn && !isStreamingTurn && !isGone && (
+        <div className="flex flex-col items-center justify-center py-20 text-slate-400 animate-pulse">
+          <Loader2 size={48} className="animate-spin mb-4 text-indigo-500" />
+          <p>{session.room ? t.session.waitingHost : t.session.connecting}</p>
+        </div>
+      )}
+
+      {(currentTurn || isStreamingTurn) && (
+        <div className="space-y-6">
+          {!isStreamingTurn && session.room && snapshot?.imageId && (
+            <div className="flex justify-center w-full">
+              <div className="w-full max-w-2xl h-48 md:h-64 bg-slate-900 rounded-xl overflow-hidden border border-slate-800 shadow-2xl">
+                <img src={relayImageUrl(session.room, snapshot.imageId)} alt={t.game.sceneAlt} className="w-full h-full object-cover animate-fade-in" />
+              </div>
+            </div>
+          )}
+
+          <div className="bg-slate-900/40 p-6 rounded-xl border border-white/5 backdrop-blur-sm min-h-[100px]">
+            <Typewriter
+              text={text}
+              speed={15}
+              isStreaming={isStreamingTurn}
+              instant={reducedMotion}
+              onComplete={onTextComplete}
+            />
+          </div>
+
+          {areChoicesVisible && currentTurn && (
+            hasSent ? (
+              <p className="text-center text-sm text-slate-500">{t.session.sent}</p>
+            ) : (
+              <div className="grid grid-cols-1 gap-3 animate-fade-in-up">
+                <div className="text-center text-sm text-slate-500 mb-2 uppercase tracking-widest font-bold">{t.game.whatNext}</div>
+                {currentTurn.choices.filter(choice => !choice.itemAction).map(choice => (
+                  <Button
+                    key={choice.id}
+                    onClick={() => send(choice)}
+                    variant="secondary"
+                    className="text-left h-auto py-4 px-5 border-slate-700 hover:border-indigo-500 hover:bg-slate-800"
+                  >
+                    {choice.text}
+                  </Button>
+                ))}
+                <CustomActionInput onSubmit={action => send({ id: `custom-${Date.now()}`, text: action, isCustom: true })} />
+              </div>
+            )
+          )}
+
+          {isTurnOpen && !snapshot?.acceptsChoices && (
+            <p className="text-center text-sm text-slate-500">{t.session.partyTurns}</p>
+          )}
+
+          {(snapshot?.isWaiting && !isStreamingTurn) && (
+            <div className="flex justify-center py-8">
+              <Loader2 className="animate-spin text-indigo-400" size={32} />
+            </div>
+          )}
+
+          {snapshot?.isGameOver && !isStreamingTurn && (
+            <div className="flex flex-col items-center gap-3 py-6 text-center">
+              <EndingIcon size={48} className={ENDING_STYLES[ending].color} />
+              <h2 className="text-3xl font-bold text-white">{t.endings[ending].title}</h2>
+              <p className="text-slate-400">{t.endings[ending].epilogue}</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      <Chronicle turns={snapshot?.turns ?? []} isOpen={isChronicleOpen} onClose={() => setIsChronicleOpen(false)} />
+    </div>
+  );
+};
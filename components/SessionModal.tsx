@@ -0,0 +1,53 @@
+import React from 'react';
+import { Loader2, Radio } from 'lucide-react';
+import { SessionInfo } from '../services/session';
+import { useI18n } from '../services/i18n';
+import { Button } from './Button';
+import { Modal } from './Modal';
+import { SessionPlayers } from './SessionPlayers';
+
+interface SessionModalProps {
+  session: SessionInfo | null; // The room this app hosts, if any
+  isOpen: boolean;
+  onOpenRoom: () => void;
+  onCloseRoom: () => void;
+  onClose: () => void;
+}
+
+// The host's side of a networked session: open a room, hand out its code, see who is in
+export const SessionModal: React.FC<SessionModalProps> = ({ session, isOpen, onOpenRoom, onCloseRoom, onClose }) => {
+  const t = useI18n();
+  if (!isOpen) return null;
+
+  const isLive = session !== null && session.status !== 'closed';
+
+  return (
+    <Modal title={t.session.title} icon={<Radio size={20} />} onClose={onClose}>
+      <div className="p-6 space-y-4 text-sm">
+        <p className="text-slate-400">{t.session.hostHint}</p>
+
+        {session?.room && isLive ? (
+          <>
+            <div className="text-center space-y-1">
+              <p className="text-xs text-slate-500 uppercase tracking-wider">{t.session.code}</p>
+              <p className="text-4xl font-bold tracking-[0.3em] text-white select-all">{session.room}</p>
+            </div>
+            {session.status === 'reconnecting' && <p className="text-amber-400 text-center">{t.session.reconnecting}</p>}
+            <SessionPlayers players={session.players} playerId={session.playerId} />
+            <Button fullWidth variant="danger" onClick={onCloseRoom}>{t.session.close}</Button>
+          </>
+        ) : isLive ? (
+          <div className="flex items-center justify-center gap-2 text-slate-400 py-4">
+            <Loader2 size={18} className="animate-spin" /> {t.session.connecting}
+          </div>
+        ) : (
+          <>
+            {session?.error && <p className="text-red-400">{t.session.errors[session.error]}</p>}
+            {session && !session.error && session.status === 'closed' && <p className="text-red-400">{t.session.lost}</p>}
+            <Button fullWidth onClick={onOpenRoom}>{t.session.host}</Button>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Crown } from 'lucide-react';
+import { SessionPlayer } from '../types';
+import { useI18n } from '../services/i18n';
+
+interface SessionPlayersProps {
+  players: SessionPlayer[];
+  playerId?: string; // This app's own seat
+}
+
+// Everyone in the room; a player whose connection dropped keeps their seat for a while
+export const SessionPlayers: React.FC<SessionPlayersProps> = ({ players, playerId }) => {
+  const t = useI18n();
+
+  return (
+    <ul className="flex flex-wrap gap-2 text-xs" aria-label={t.session.players}>
+      {players.map(player => (
+        <li
+          key={player.id}
+          className={`flex items-center gap-1.5 px-2 py-1 rounded-lg border ${
+            player.connected ? 'border-slate-700 bg-slate-800/50 text-slate-300' : 'border-slate-800 text-slate-500'
+          }`}
+          title={player.connected ? undefined : t.session.away}
+        >
+          <span className={`w-2 h-2 rounded-full ${player.connected ? 'bg-emerald-400' : 'bg-amber-400 animate-pulse'}`} />
+          {player.isHost && <Crown size={12} className="text-indigo-300" aria-label={t.session.hostName} />}
+          <span className="font-medium">{player.name}</span>
+          {player.id === playerId && <span className="text-slate-500">({t.session.you})</span>}
+        </li>
+      ))}
+    </ul>
+  );
+};
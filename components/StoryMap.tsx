@@ -0,0 +1,87 @@
+import React from 'react';
+import { GitBranch, Undo2, MapPin, PenLine } from 'lucide-react';
+import { StoryNode, StoryTree } from '../types';
+import { childrenOf, pathTo } from '../services/storyTree';
+import { useI18n } from '../services/i18n';
+import { Modal } from './Modal';
+import { EndingIcon } from './EndingIcon';
+
+interface StoryMapProps {
+  tree: StoryTree;
+  isOpen: boolean;
+  canRewind: boolean; // False while a turn is being written
+  onRewind: (id: string) => void;
+  onClose: () => void;
+}
+
+const SNIPPET_LENGTH = 90;
+
+export const StoryMap: React.FC<StoryMapProps> = ({ tree, isOpen, canRewind, onRewind, onClose }) => {
+  const t = useI18n();
+  if (!isOpen) return null;
+
+  const activePath = new Set(pathTo(tree, tree.currentId).map(node => node.id));
+
+  const renderBranch = (node: StoryNode, depth: number): React.ReactNode => {
+    const isCurrent = node.id === tree.currentId;
+    const isActive = activePath.has(node.id);
+    const isEnding = node.turn.choices.length === 0;
+    const snippet = node.turn.text.length > SNIPPET_LENGTH ? `${node.turn.text.substring(0, SNIPPET_LENGTH - 3)}...` : node.turn.text;
+
+    return (
+      <li key={node.id} className="relative">
+        <div className={`flex gap-3 p-3 rounded-lg border ${isCurrent ? 'border-indigo-500 bg-indigo-500/10' : isActive ? 'border-slate-700 bg-slate-800/50' : 'border-slate-800 bg-slate-950/50'}`}>
+          {node.turn.imageUrl && (
+            <img src={node.turn.imageUrl} alt={t.chronicle.sceneOfTurn(depth)} className="w-16 h-10 object-cover rounded border border-slate-800 shrink-0" />
+          )}
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex items-center gap-2 text-xs">
+              <span className="uppercase tracking-widest font-bold text-slate-500">{t.chronicle.turn(depth)}</span>
+              {node.choice ? (
+                <span className={`flex items-center gap-1 truncate ${isActive ? 'text-indigo-300' : 'text-slate-400'} ${node.choice.isCustom ? 'italic' : ''}`}>
+                  {node.choice.isCustom && <PenLine size={12} />}
+                  {node.choice.text}
+                </span>
+              ) : (
+                <span className="text-slate-400">{t.storyMap.opening}</span>
+              )}
+            </div>
+            <p className="text-xs text-slate-400 leading-relaxed">{snippet}</p>
+            <div className="flex items-center gap-3 text-xs">
+              {isCurrent && (
+                <span className="flex items-center gap-1 text-indigo-400"><MapPin size={12} /> {t.storyMap.current}</span>
+              )}
+              {isEnding && (
+                <span className="flex items-center gap-1 text-slate-300">
+                  <EndingIcon ending={node.turn.ending ?? 'death'} /> {node.turn.ending ? t.endings[node.turn.ending].title : t.storyMap.ending}
+                </span>
+              )}
+              {!isCurrent && !isEnding && (
+                <button
+                  onClick={() => onRewind(node.id)}
+                  disabled={!canRewind}
+                  className="flex items-center gap-1 text-amber-400 hover:text-amber-300 disabled:opacity-30 disabled:cursor-not-allowed"
+                >
+                  <Undo2 size={12} /> {t.storyMap.rewind}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+        {childrenOf(tree, node.id).length > 0 && (
+          <ul className="mt-2 ml-4 pl-4 border-l border-slate-800 space-y-2">
+            {childrenOf(tree, node.id).map(child => renderBranch(child, depth + 1))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <Modal title={t.storyMap.title} icon={<GitBranch size={20} />} width="max-w-2xl" onClose={onClose}>
+      <ul className="p-6 max-h-[70vh] overflow-y-auto space-y-2">
+        {childrenOf(tree, null).map(root => renderBranch(root, 1))}
+      </ul>
+    </Modal>
+  );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import { Button } from './Button';
+import { StoryErrorKind } from '../services/engineErrors';
+import { useI18n } from '../services/i18n';
+
+interface TurnErrorPanelProps {
+  kind: StoryErrorKind;
+  onRetry: () => void;
+}
+
+export const TurnErrorPanel: React.FC<TurnErrorPanelProps> = ({ kind, onRetry }) => {
+  const t = useI18n();
+  return (
+    <div className="flex flex-col items-center gap-4 p-6 rounded-xl border border-amber-500/30 bg-amber-500/5 text-center animate-fade-in" role="alert">
+      <AlertTriangle className="text-amber-400" size={32} />
+      <p className="text-slate-300">{t.errors[kind]}</p>
+      <p className="text-xs text-slate-500">{t.errors.notAdvanced}</p>
+      <Button onClick={onRetry} variant="secondary" className="flex items-center gap-2">
+        <RotateCcw size={16} /> {t.errors.retry}
+      </Button>
+    </div>
+  );
+};
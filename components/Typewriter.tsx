@@ -1,29 +1,52 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 
 interface TypewriterProps {
   text: string;
   speed?: number;
+  isStreaming?: boolean; // More text may still arrive, so don't complete yet
+  revealLimit?: number; // Never reveal past this many characters, so the text follows the narration
+  instant?: boolean; // No animation: reduced motion, or the player skipped it
   onComplete?: () => void;
 }
 
-export const Typewriter: React.FC<TypewriterProps> = ({ text, speed = 20, onComplete }) => {
+// Reveals text as it arrives. If it falls behind it reveals several characters per tick,
+// so it never lags far behind the stream.
+export const Typewriter: React.FC<TypewriterProps> = ({ text, speed = 20, isStreaming = false, revealLimit = Infinity, instant = false, onComplete }) => {
   const [displayedText, setDisplayedText] = useState('');
-  
+  const completedRef = useRef(false);
+
+  // Text that doesn't continue what is on screen (a new turn, a retried stream) starts over.
+  // Trailing whitespace is ignored, the final narrative arrives trimmed.
+  useEffect(() => {
+    completedRef.current = false;
+    setDisplayedText((prev) => (text.startsWith(prev.trimEnd()) ? prev.trimEnd() : ''));
+  }, [text]);
+
   useEffect(() => {
-    setDisplayedText('');
-    let i = 0;
-    const timer = setInterval(() => {
-      if (i < text.length) {
-        setDisplayedText((prev) => prev + text.charAt(i));
-        i++;
-      } else {
-        clearInterval(timer);
-        if (onComplete) onComplete();
+    if (!text.startsWith(displayedText)) return;
+
+    if (displayedText.length < text.length) {
+      const target = Math.min(text.length, revealLimit);
+      if (displayedText.length >= target) return;
+      if (instant) {
+        setDisplayedText(text.slice(0, target));
+        return;
       }
-    }, speed);
+      const step = Math.max(1, Math.floor((target - displayedText.length) / 40));
+      const timer = setTimeout(() => setDisplayedText(text.slice(0, displayedText.length + step)), speed);
+      return () => clearTimeout(timer);
+    }
 
-    return () => clearInterval(timer);
-  }, [text, speed, onComplete]);
+    if (!isStreaming && !completedRef.current) {
+      completedRef.current = true;
+      if (onComplete) onComplete();
+    }
+  }, [text, displayedText, isStreaming, speed, revealLimit, instant, onComplete]);
 
-  return <p className="leading-relaxed text-lg md:text-xl text-slate-200 whitespace-pre-wrap">{displayedText}</p>;
+  return (
+    <p className="leading-relaxed text-lg md:text-xl text-slate-200 whitespace-pre-wrap">
+      {displayedText}
+      {isStreaming && <span aria-hidden="true" className="inline-block w-2 h-5 ml-1 align-middle bg-indigo-400/70 animate-pulse" />}
+    </p>
+  );
 };
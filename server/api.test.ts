@@ -0,0 +1,82 @@
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { ApiOptions, createApiMiddleware } from "./api";
+
+let server: Server | undefined;
+
+const listen = async (options: Partial<ApiOptions> = {}): Promise<string> => {
+  const middleware = createApiMiddleware({ mock: true, log: () => {}, ...options });
+  server = createServer((req, res) => middleware(req, res, () => {
+    res.statusCode = 404;
+    res.end();
+  }));
+  await new Promise<void>(resolve => server!.listen(0, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const post = (url: string, body: string, cookie?: string) =>
+  fetch(url, { method: "POST", headers: { "Content-Type": "application/json", ...(cookie && { Cookie: cookie }) }, body });
+
+afterEach(async () => {
+  await new Promise(resolve => server?.close(resolve));
+  server = undefined;
+});
+
+describe("api middleware", () => {
+  it("limits each session the server issued", async () => {
+    const base = await listen({ rateLimit: 2 });
+    const body = JSON.stringify({ theme: "Ruins", language: "en" });
+    const first = await post(`${base}/api/story/archetypes`, body);
+    const cookie = first.headers.get("set-cookie")!.split(";")[0];
+    const statuses = [first.status];
+    for (let request = 0; request < 2; request++) {
+      statuses.push((await post(`${base}/api/story/archetypes`, body, cookie)).status);
+    }
+    expect(statuses).toEqual([200, 200, 429]);
+    // A forged session is replaced by a new one, which starts its own allowance
+    const forged = await post(`${base}/api/story/archetypes`, body, `${cookie.split(".")[0]}.forged`);
+    expect(forged.status).toBe(200);
+    expect(forged.headers.get("set-cookie")).not.toContain(cookie);
+  });
+
+  it("limits the address too, so dropping the cookie does not buy a new allowance", async () => {
+    const base = await listen({ rateLimit: 2 });
+    const body = JSON.stringify({ theme: "Ruins", language: "en" });
+    const statuses = [];
+    for (let request = 0; request < 9; request++) {
+      statuses.push((await post(`${base}/api/story/archetypes`, body)).status);
+    }
+    expect(statuses).toEqual([...Array(8).fill(200), 429]);
+  });
+
+  it("answers 413 to an oversized body", async () => {
+    const base = await listen();
+    const response = await post(`${base}/api/image`, JSON.stringify({ prompt: "x".repeat(300 * 1024) }));
+    expect(response.status).toBe(413);
+  });
+
+  it("rejects a story request with a malformed party or inventory instead of failing on it", async () => {
+    const base = await listen();
+    const request = {
+      theme: "Ruins",
+      language: "en",
+      character: { name: "Ada", archetype: "Explorer", attributes: { strength: 2, agility: 2, wits: 2 } },
+      hp: 100,
+      inventory: [{ id: "rope", name: "Rope", description: "Ten metres", category: "key", quantity: 1 }],
+      lastChoice: null,
+      depth: 0,
+      context: { summary: "", recentTurns: [], facts: { characters: [], places: [], openQuests: [], goals: [], npcs: [], factions: [] } },
+      difficulty: "normal",
+    };
+    expect((await post(`${base}/api/story`, JSON.stringify({ ...request, party: {} }))).status).toBe(400);
+    expect((await post(`${base}/api/story`, JSON.stringify({ ...request, character: { name: "Ada" } }))).status).toBe(400);
+    expect((await post(`${base}/api/story`, JSON.stringify({ ...request, inventory: [null] }))).status).toBe(400);
+    expect((await post(`${base}/api/story`, JSON.stringify({ ...request, inventory: [{ name: 5 }] }))).status).toBe(400);
+
+    const party = { mode: "vote", members: [{ name: "Ada", archetype: "Explorer", hp: 100 }, { name: "Bo", archetype: "Bard", hp: 0 }], next: "Ada" };
+    const response = await post(`${base}/api/story`, JSON.stringify({ ...request, party }));
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('"type":"response"');
+  });
+});
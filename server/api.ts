@@ -0,0 +1,274 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { ApiErrorBody, ChoicesApiRequest, Engines, Language, StoryApiRequest, StoryStreamEvent, SummaryRequest } from "../types";
+import { createGeminiEngines } from "../services/geminiService";
+import { createScriptedEngines } from "../services/scriptedEngine";
+import { StoryEngineError, StoryErrorKind } from "../services/engineErrors";
+import { isRecord } from "../services/storyValidation";
+import { addressOf, createRateLimiter, createSessionCookies } from "./rateLimit";
+import {
+  isCampaignProgress, isCharacter, isCheckResult, isDifficulty, isInventory, isLanguage, isLastChoice, isNumber, isPartyBrief, isStoryContext,
+  isText,
+} from "./validation";
+
+export interface ApiOptions {
+  apiKey?: string;
+  mock?: boolean; // Answer with the offline scripted engine, no key or network needed
+  rateLimit?: number; // Requests per minute, per session and per endpoint group
+  log?: (line: string) => void;
+}
+
+// Connect-style middleware, so the same handler runs inside Vite and in the standalone server
+export type ApiMiddleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => void;
+
+// Bad requests to the API itself, as opposed to engine failures
+export class ApiRequestError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "ApiRequestError";
+    this.status = status;
+  }
+}
+
+const MAX_BODY_BYTES = 256 * 1024;
+const MAX_PROMPT_LENGTH = 4000;
+
+const STATUS_CODES: Record<StoryErrorKind, number> = {
+  RATE_LIMIT: 429,
+  SAFETY_BLOCK: 422,
+  NETWORK: 502,
+  MALFORMED_OUTPUT: 502,
+  ABORTED: 499,
+  UNKNOWN: 500,
+};
+
+// Reads the settings from the environment: GEMINI_API_KEY, API_MOCK=true, API_RATE_LIMIT
+export const apiOptionsFromEnv = (env: Record<string, string | undefined>): ApiOptions => ({
+  apiKey: env.GEMINI_API_KEY || undefined,
+  mock: env.API_MOCK === "true",
+  rateLimit: Number(env.API_RATE_LIMIT) || undefined,
+});
+
+// Rejects with 413 as soon as the body grows too large, without reading the rest of it
+const readJson = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        req.off("data", onData);
+        req.pause();
+        reject(new ApiRequestError(413, "Request body too large"));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on("data", onData);
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch {
+        reject(new ApiRequestError(400, "Request body is not valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+
+// Optional fields are either missing or well formed
+const readOptional = <T>(value: unknown, guard: (value: unknown) => value is T, field: string): T | undefined => {
+  if (value === undefined) return undefined;
+  if (!guard(value)) throw new ApiRequestError(400, `Malformed ${field}`);
+  return value;
+};
+
+// Only the shape is checked: the engines validate what they send to the model and what comes back
+const readStoryRequest = (body: unknown): StoryApiRequest => {
+  if (
+    !isRecord(body) || !isText(body.theme) || !isLanguage(body.language) || !isCharacter(body.character) ||
+    !isNumber(body.hp) || !isInventory(body.inventory) || !isNumber(body.depth) || !isStoryContext(body.context) ||
+    !isDifficulty(body.difficulty) || !isLastChoice(body.lastChoice)
+  ) {
+    throw new ApiRequestError(400, "Malformed story request");
+  }
+  const checkResult = readOptional(body.checkResult, isCheckResult, "check result");
+  const campaign = readOptional(body.campaign, isCampaignProgress, "campaign");
+  const party = readOptional(body.party, isPartyBrief, "party");
+  return {
+    theme: body.theme,
+    language: body.language,
+    character: body.character,
+    hp: body.hp,
+    inventory: body.inventory,
+    lastChoice: body.lastChoice,
+    depth: body.depth,
+    context: body.context,
+    difficulty: body.difficulty,
+    ...(checkResult && { checkResult }),
+    ...(campaign && { campaign }),
+    ...(party && { party }),
+  };
+};
+
+const readChoicesRequest = (body: unknown): ChoicesApiRequest => {
+  if (!isRecord(body) || !isText(body.narrative)) throw new ApiRequestError(400, "Malformed choices request");
+  return { ...readStoryRequest(body), narrative: body.narrative };
+};
+
+const readSummaryRequest = (body: unknown): Omit<SummaryRequest, "signal"> => {
+  if (!isRecord(body) || typeof body.previousSummary !== "string" || !Array.isArray(body.turns) || !isLanguage(body.language)) {
+    throw new ApiRequestError(400, "Malformed summary request");
+  }
+  return { previousSummary: body.previousSummary, turns: body.turns, language: body.language };
+};
+
+const readArchetypesRequest = (body: unknown): { theme: string; language: Language } => {
+  if (!isRecord(body) || typeof body.theme !== "string" || !isLanguage(body.language)) {
+    throw new ApiRequestError(400, "Malformed archetypes request");
+  }
+  return { theme: body.theme, language: body.language };
+};
+
+const readImageRequest = (body: unknown): { prompt: string } => {
+  if (!isRecord(body) || typeof body.prompt !== "string" || body.prompt.length > MAX_PROMPT_LENGTH) {
+    throw new ApiRequestError(400, "Malformed image request");
+  }
+  return { prompt: body.prompt };
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store" });
+  res.end(JSON.stringify(body));
+};
+
+// The story arrives as one event per line; the head is only written with the first one,
+// so failures before any narrative still get a proper status code
+const streamStory = async (engines: Engines, request: StoryApiRequest, signal: AbortSignal, res: ServerResponse) => {
+  const send = (event: StoryStreamEvent) => {
+    if (!res.headersSent) res.writeHead(200, { "Content-Type": "application/x-ndjson; charset=utf-8", "Cache-Control": "no-store" });
+    res.write(`${JSON.stringify(event)}\n`);
+  };
+  const response = await engines.story.generateStorySegment({
+    ...request,
+    signal,
+    onNarrative: (text) => send({ type: "narrative", text }),
+  });
+  send({ type: "response", response });
+  res.end();
+};
+
+type Route = {
+  limit: "story" | "image";
+  handle: (engines: Engines, body: unknown, signal: AbortSignal, res: ServerResponse) => Promise<void>;
+};
+
+const ROUTES: Record<string, Route> = {
+  "/api/story": {
+    limit: "story",
+    handle: (engines, body, signal, res) => streamStory(engines, readStoryRequest(body), signal, res),
+  },
+  "/api/story/choices": {
+    limit: "story",
+    handle: async (engines, body, signal, res) => {
+      const choices = await engines.story.suggestChoices({ ...readChoicesRequest(body), signal });
+      sendJson(res, 200, { choices });
+    },
+  },
+  "/api/story/summary": {
+    limit: "story",
+    handle: async (engines, body, signal, res) => {
+      const summary = await engines.story.summarizeStory({ ...readSummaryRequest(body), signal });
+      sendJson(res, 200, { summary });
+    },
+  },
+  "/api/story/archetypes": {
+    limit: "story",
+    handle: async (engines, body, signal, res) => {
+      const { theme, language } = readArchetypesRequest(body);
+      sendJson(res, 200, { archetypes: await engines.story.suggestArchetypes(theme, language, signal) });
+    },
+  },
+  "/api/image": {
+    limit: "image",
+    handle: async (engines, body, signal, res) => {
+      const url = await engines.image.generateSceneImage(readImageRequest(body).prompt, signal);
+      sendJson(res, 200, { url: url ?? null });
+    },
+  },
+};
+
+// Several players behind one address (a LAN party, a classroom) each get the session allowance,
+// while a client dropping its cookie for a fresh session is still held back by the address
+const SESSIONS_PER_ADDRESS = 4;
+
+// Holds the Gemini key on the server and exposes the engines under /api
+export const createApiMiddleware = ({ apiKey, mock = false, rateLimit = 30, log = console.log }: ApiOptions): ApiMiddleware => {
+  if (!mock && !apiKey) console.warn("GEMINI_API_KEY not set, /api answers with the offline scripted engine.");
+  const gemini = mock || !apiKey ? undefined : createGeminiEngines(apiKey);
+  // The script picks segments from the request alone, so every session can share it
+  const engines = gemini ?? createScriptedEngines();
+  const sessions = createSessionCookies();
+  const limiters = {
+    story: { session: createRateLimiter(rateLimit, 60_000), address: createRateLimiter(rateLimit * SESSIONS_PER_ADDRESS, 60_000) },
+    image: { session: createRateLimiter(rateLimit, 60_000), address: createRateLimiter(rateLimit * SESSIONS_PER_ADDRESS, 60_000) },
+  };
+
+  return (req, res, next) => {
+    const path = (req.url ?? "").split("?")[0];
+    const route = ROUTES[path];
+    if (!route) return next();
+
+    const started = Date.now();
+    const session = sessions.sessionOf(req, res);
+    let failure = "";
+    // Prompts and stories are never logged, only what is needed to follow traffic and errors
+    res.on("close", () => {
+      log(`[api] ${req.method} ${path} ${res.statusCode} ${Date.now() - started}ms session=${session.slice(0, 12)}${failure && ` error=${failure}`}`);
+    });
+
+    const fail = (status: number, kind: StoryErrorKind, message: string) => {
+      failure = kind;
+      if (res.destroyed) return;
+      if (res.headersSent) {
+        const event: StoryStreamEvent = { type: "error", kind, message };
+        res.end(`${JSON.stringify(event)}\n`);
+        return;
+      }
+      const body: ApiErrorBody = { error: { kind, message } };
+      sendJson(res, status, body);
+    };
+
+    if (req.method !== "POST") return fail(405, "UNKNOWN", "Use POST");
+
+    const limiter = limiters[route.limit];
+    const byAddress = limiter.address.take(addressOf(req));
+    const { allowed, retryAfterMs } = byAddress.allowed ? limiter.session.take(session) : byAddress;
+    if (!allowed) {
+      res.setHeader("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+      return fail(429, "RATE_LIMIT", "Too many requests, slow down");
+    }
+
+    // The player moved on (new turn, reset): stop paying for the answer
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    readJson(req)
+      .then(body => route.handle(engines, body, controller.signal, res))
+      .catch((error: unknown) => {
+        if (error instanceof ApiRequestError) {
+          // The rest of an oversized upload is never read: answer, then drop the connection
+          if (error.status === 413) {
+            res.setHeader("Connection", "close");
+            res.once("finish", () => req.destroy());
+          }
+          return fail(error.status, "UNKNOWN", error.message);
+        }
+        if (error instanceof StoryEngineError) return fail(STATUS_CODES[error.kind], error.kind, error.message);
+        console.error("[api] Unexpected failure", error);
+        fail(500, "UNKNOWN", "Internal error");
+      });
+  };
+};
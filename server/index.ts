@@ -0,0 +1,48 @@
+import { IncomingMessage, ServerResponse, createServer } from "node:http";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { apiOptionsFromEnv, createApiMiddleware } from "./api";
+import { attachRelay } from "./relay";
+
+// Production server: the built app from dist/, the /api endpoints and the session relay.
+// During development the same endpoints run inside Vite (vite.config.ts).
+
+const ROOT = path.resolve(process.env.STATIC_DIR ?? "dist");
+const PORT = Number(process.env.PORT) || 3000;
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".ico": "image/x-icon",
+};
+
+const api = createApiMiddleware(apiOptionsFromEnv(process.env));
+
+const serveStatic = async (req: IncomingMessage, res: ServerResponse) => {
+  try {
+    const file = path.join(ROOT, path.normalize(decodeURIComponent((req.url ?? "/").split("?")[0])));
+    // Unknown paths get the app, which has a single page
+    const target = file.startsWith(ROOT + path.sep) && path.extname(file) ? file : path.join(ROOT, "index.html");
+    const body = await readFile(target);
+    res.writeHead(200, { "Content-Type": CONTENT_TYPES[path.extname(target)] ?? "application/octet-stream" });
+    res.end(body);
+  } catch {
+    res.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" });
+    res.end("Not found");
+  }
+};
+
+// The API first, then the rooms' illustrations, then the built app
+const server = createServer((req, res) => {
+  api(req, res, () => relay.middleware(req, res, () => serveStatic(req, res)));
+});
+
+const relay = attachRelay(server);
+
+server.listen(PORT, () => {
+  console.log(`Listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,68 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+export interface RateLimiter {
+  // Counts a request for key. retryAfterMs is how long to wait when it is over the limit.
+  take: (key: string) => { allowed: boolean; retryAfterMs: number };
+}
+
+// Sliding window: at most `limit` requests per key in any `windowMs`
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  const hits = new Map<string, number[]>();
+
+  // Forget keys whose window is over, so idle sessions don't pile up
+  const sweep = (now: number) => {
+    hits.forEach((times, key) => {
+      if (times[times.length - 1] <= now - windowMs) hits.delete(key);
+    });
+  };
+
+  return {
+    take: (key) => {
+      const now = Date.now();
+      if (hits.size > 1000) sweep(now);
+      const times = (hits.get(key) ?? []).filter(time => time > now - windowMs);
+      if (times.length >= limit) {
+        hits.set(key, times);
+        return { allowed: false, retryAfterMs: times[0] + windowMs - now };
+      }
+      times.push(now);
+      hits.set(key, times);
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+};
+
+// What limits count against: the client's address, which it cannot pick
+export const addressOf = (req: IncomingMessage): string => `ip:${req.socket.remoteAddress ?? "unknown"}`;
+
+export interface SessionCookies {
+  // The session the request belongs to; issues a new one on res when the request has none or a forged one
+  sessionOf: (req: IncomingMessage, res: ServerResponse) => string;
+}
+
+const SESSION_COOKIE = "chronicles-session";
+
+// Sessions are issued by the server and signed, so a client cannot pick one; the secret lives as long as the process
+export const createSessionCookies = (secret: Buffer = randomBytes(32)): SessionCookies => {
+  const sign = (id: string) => createHmac("sha256", secret).update(id).digest("base64url");
+
+  const read = (req: IncomingMessage): string | undefined => {
+    const cookie = (req.headers.cookie ?? "").split(";").map(part => part.trim()).find(part => part.startsWith(`${SESSION_COOKIE}=`));
+    const [id, signature] = (cookie?.slice(SESSION_COOKIE.length + 1) ?? "").split(".");
+    if (!id || !signature) return undefined;
+    const expected = Buffer.from(sign(id));
+    const given = Buffer.from(signature);
+    return given.length === expected.length && timingSafeEqual(given, expected) ? id : undefined;
+  };
+
+  return {
+    sessionOf: (req, res) => {
+      const existing = read(req);
+      if (existing) return existing;
+      const id = randomUUID();
+      res.setHeader("Set-Cookie", `${SESSION_COOKIE}=${id}.${sign(id)}; Path=/api; HttpOnly; SameSite=Strict`);
+      return id;
+    },
+  };
+};
@@ -0,0 +1,138 @@
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { WebSocket } from "ws";
+import { GameTurn, RelayClientMessage, RelayServerMessage, SessionSnapshot } from "../types";
+import { RelayOptions, attachRelay } from "./relay";
+
+let server: Server | undefined;
+let relay: ReturnType<typeof attachRelay> | undefined;
+const sockets: WebSocket[] = [];
+
+const listen = async (options: RelayOptions = {}): Promise<string> => {
+  server = createServer((req, res) => relay!.middleware(req, res, () => {
+    res.statusCode = 404;
+    res.end();
+  }));
+  relay = attachRelay(server, { log: () => {}, ...options });
+  await new Promise<void>(resolve => server!.listen(0, "127.0.0.1", resolve));
+  return `127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+// A client that queues what the relay sends, to be read in order
+const connect = async (host: string, origin = `http://${host}`) => {
+  const socket = new WebSocket(`ws://${host}/relay`, { origin });
+  sockets.push(socket);
+  const queue: RelayServerMessage[] = [];
+  const waiting: ((message: RelayServerMessage) => void)[] = [];
+  socket.on("message", (data) => {
+    const message = JSON.parse(data.toString()) as RelayServerMessage;
+    const next = waiting.shift();
+    if (next) next(message);
+    else queue.push(message);
+  });
+  await new Promise((resolve, reject) => {
+    socket.once("open", resolve);
+    socket.once("error", reject);
+  });
+  return {
+    send: (message: RelayClientMessage | Record<string, unknown>) => socket.send(JSON.stringify(message)),
+    next: (): Promise<RelayServerMessage> => {
+      const queued = queue.shift();
+      return queued ? Promise.resolve(queued) : new Promise(resolve => waiting.push(resolve));
+    },
+  };
+};
+
+// Reads past player lists to the next message of the given type
+const nextOf = async <T extends RelayServerMessage["type"]>(client: Awaited<ReturnType<typeof connect>>, type: T) => {
+  for (;;) {
+    const message = await client.next();
+    if (message.type === type) return message as Extract<RelayServerMessage, { type: T }>;
+  }
+};
+
+const TURN: GameTurn = { text: "A door.", choices: [{ id: "open", text: "Open it" }], hpChange: 0, inventoryAdded: [], inventoryRemoved: [] };
+const SNAPSHOT: SessionSnapshot = {
+  theme: "Ruins",
+  language: "en",
+  character: { name: "Ada", archetype: "Explorer", attributes: { strength: 2, agility: 2, wits: 2 } },
+  hp: 100,
+  turns: [TURN],
+  isGameOver: false,
+  isWaiting: false,
+  acceptsChoices: true,
+};
+
+afterEach(async () => {
+  sockets.splice(0).forEach(socket => socket.terminate());
+  relay?.close();
+  await new Promise(resolve => server?.close(resolve));
+  server = undefined;
+  relay = undefined;
+});
+
+describe("relay", () => {
+  it("refuses connections from pages on other sites", async () => {
+    const host = await listen();
+    await expect(connect(host, "https://elsewhere.example")).rejects.toThrow(/403/);
+  });
+
+  it("caps the rooms one address can open", async () => {
+    const host = await listen();
+    const codes = [];
+    for (let room = 0; room < 4; room++) {
+      const client = await connect(host);
+      client.send({ type: "create", name: "Ada" });
+      codes.push(await client.next());
+    }
+    expect(codes.slice(0, 3).every(message => message.type === "joined")).toBe(true);
+    expect(codes[3]).toMatchObject({ type: "error", code: "TOO_MANY_ROOMS" });
+  });
+
+  it("relays well-formed snapshots only, and never ones carrying an illustration", async () => {
+    const host = await listen();
+    const hostClient = await connect(host);
+    hostClient.send({ type: "create", name: "Ada" });
+    const { room } = await nextOf(hostClient, "joined");
+    const guest = await connect(host);
+    guest.send({ type: "join", room, name: "Bo" });
+    await nextOf(guest, "joined");
+
+    hostClient.send({ type: "state", snapshot: { ...SNAPSHOT, turns: [{ ...TURN, imageUrl: "data:image/png;base64,AAAA" }] } });
+    expect(await nextOf(hostClient, "error")).toMatchObject({ code: "BAD_MESSAGE" });
+    hostClient.send({ type: "state", snapshot: { ...SNAPSHOT, hp: "full" } });
+    expect(await nextOf(hostClient, "error")).toMatchObject({ code: "BAD_MESSAGE" });
+    guest.send({ type: "choice", choice: "open" });
+    expect(await nextOf(guest, "error")).toMatchObject({ code: "BAD_MESSAGE" });
+
+    hostClient.send({ type: "state", snapshot: SNAPSHOT });
+    expect(await nextOf(guest, "state")).toEqual({ type: "state", snapshot: SNAPSHOT });
+  });
+
+  it("takes the illustration from the host only, and serves it back", async () => {
+    const host = await listen();
+    const hostClient = await connect(host);
+    hostClient.send({ type: "create", name: "Ada" });
+    const { room, token } = await nextOf(hostClient, "joined");
+    const url = `http://${host}/relay/rooms/${room}/images/scene-1`;
+    const png = Buffer.from("not really a png");
+    const body = `data:image/png;base64,${png.toString("base64")}`;
+
+    expect((await fetch(url, { method: "PUT", headers: { "X-Relay-Token": "guess" }, body })).status).toBe(403);
+    expect((await fetch(url, { method: "PUT", headers: { "X-Relay-Token": token }, body: "data:text/html,<p>hi</p>" })).status).toBe(400);
+    expect((await fetch(url, { method: "PUT", headers: { "X-Relay-Token": token }, body })).status).toBe(204);
+
+    const response = await fetch(url);
+    expect(response.headers.get("content-type")).toBe("image/png");
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(png);
+    expect((await fetch(`http://${host}/relay/rooms/${room}/images/scene-0`)).status).toBe(404);
+  });
+
+  it("closes rooms nobody plays in", async () => {
+    const host = await listen({ idleMs: 50 });
+    const hostClient = await connect(host);
+    hostClient.send({ type: "create", name: "Ada" });
+    expect(await nextOf(hostClient, "closed")).toEqual({ type: "closed", reason: "idle" });
+  });
+});
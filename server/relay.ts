@@ -0,0 +1,357 @@
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import type { Duplex } from "node:stream";
+import { randomBytes, randomUUID } from "node:crypto";
+import { WebSocket, WebSocketServer } from "ws";
+import { RelayClientMessage, RelayCloseReason, RelayErrorCode, RelayServerMessage, SessionPlayer, SessionSnapshot } from "../types";
+import { isRecord } from "../services/storyValidation";
+import type { ApiMiddleware } from "./api";
+import { addressOf } from "./rateLimit";
+import { isChoice, isSnapshot, isText } from "./validation";
+
+// Rooms for networked sessions. The relay keeps no game logic: the host's app runs the story
+// and publishes what everyone sees; guests send their choices back to it.
+
+export const RELAY_PATH = "/relay";
+
+export interface RelayOptions {
+  graceMs?: number; // How long a dropped player keeps their seat
+  idleMs?: number; // How long a room lasts without any message from its players
+  log?: (line: string) => void;
+}
+
+const MAX_PLAYERS = 8;
+const MAX_NAME_LENGTH = 40;
+const MAX_ROOMS = 100;
+const MAX_ROOMS_PER_ADDRESS = 3;
+const MAX_MESSAGE_BYTES = 1024 * 1024; // Snapshots are text; the illustration is uploaded apart
+const MAX_IMAGE_BYTES = 8 * 1024 * 1024; // The data URL as the host sends it
+const HEARTBEAT_MS = 30_000;
+// No 0/O or 1/I, codes are read out loud
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 5;
+
+interface Member {
+  id: string;
+  name: string;
+  token: string; // Secret that lets the same player back in after a disconnect
+  isHost: boolean;
+  socket: WebSocket | null; // null while disconnected
+  expiry?: ReturnType<typeof setTimeout>;
+}
+
+interface Room {
+  code: string;
+  address: string; // The host's, to cap how many rooms one client opens
+  members: Map<string, Member>;
+  snapshot?: SessionSnapshot; // Latest state from the host, replayed to anyone (re)joining
+  image?: SceneImage; // The current scene's illustration, named by snapshot.imageId
+  idle?: ReturnType<typeof setTimeout>;
+}
+
+interface SceneImage {
+  id: string;
+  type: string;
+  data: Buffer;
+}
+
+// Sockets that don't answer pings are dropped, so their seat starts its grace period
+type LiveSocket = WebSocket & { isAlive?: boolean };
+
+const newCode = (taken: Map<string, Room>): string => {
+  for (;;) {
+    const code = Array.from(randomBytes(CODE_LENGTH), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("");
+    if (!taken.has(code)) return code;
+  }
+};
+
+const readName = (value: unknown): string | undefined => {
+  const name = typeof value === "string" ? value.trim() : "";
+  return name && name.length <= MAX_NAME_LENGTH ? name : undefined;
+};
+
+// Checks every message's shape; the host still validates choices against its own turn
+const readMessage = (data: string): RelayClientMessage | undefined => {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+  if (!isRecord(message)) return undefined;
+  const { name, room, token, snapshot, text, choice } = message;
+  switch (message.type) {
+    case "create":
+      return isText(name) ? { type: "create", name } : undefined;
+    case "join":
+      return isText(room) && isText(name) ? { type: "join", room, name } : undefined;
+    case "resume":
+      return isText(room) && isText(token) ? { type: "resume", room, token } : undefined;
+    case "state":
+      return isSnapshot(snapshot) ? { type: "state", snapshot } : undefined;
+    case "narrative":
+      return isText(text) ? { type: "narrative", text } : undefined;
+    case "choice":
+      return isChoice(choice) ? { type: "choice", choice } : undefined;
+    case "leave":
+      return { type: "leave" };
+    default:
+      return undefined;
+  }
+};
+
+// Pages from other sites can open WebSockets too; only the app served from this host may
+const isSameOrigin = (req: IncomingMessage): boolean => {
+  try {
+    return !!req.headers.origin && new URL(req.headers.origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+};
+
+// Only images, and only ones a browser shows as such: the endpoint serves them back from this origin
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/webp", "image/svg+xml"];
+const IMAGE_PATH = /^\/relay\/rooms\/([A-Z0-9]+)\/images\/([\w-]{1,64})$/;
+
+const readDataUrl = (url: string): Omit<SceneImage, "id"> | undefined => {
+  const match = /^data:([\w/+.-]+)((?:;[\w=.-]+)*),/.exec(url);
+  if (!match || !IMAGE_TYPES.includes(match[1])) return undefined;
+  const content = url.slice(match[0].length);
+  try {
+    const data = match[2].split(";").includes("base64") ? Buffer.from(content, "base64") : Buffer.from(decodeURIComponent(content), "utf8");
+    return data.length > 0 ? { type: match[1], data } : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Resolves with undefined as soon as the body grows too large, without reading the rest of it
+const readText = (req: IncomingMessage, limit: number): Promise<string | undefined> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        req.off("data", onData);
+        req.pause();
+        resolve(undefined);
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on("data", onData);
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+
+const reply = (res: ServerResponse, status: number, text = "") => {
+  res.writeHead(status, { "Content-Type": "text/plain; charset=utf-8" });
+  res.end(text);
+};
+
+const toPlayer = ({ id, name, isHost, socket }: Member): SessionPlayer => ({ id, name, isHost, connected: socket !== null });
+
+// Handles WebSocket upgrades on RELAY_PATH; every other upgrade (Vite's HMR, for one) is left alone.
+// The returned middleware serves the rooms' illustrations under RELAY_PATH/rooms/<code>/images/<id>.
+export const attachRelay = (server: Server, { graceMs = 60_000, idleMs = 30 * 60_000, log = console.log }: RelayOptions = {}) => {
+  const rooms = new Map<string, Room>();
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+  const send = (socket: WebSocket | null, message: RelayServerMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const fail = (socket: WebSocket, code: RelayErrorCode, message: string) => send(socket, { type: "error", code, message });
+
+  const broadcast = (room: Room, message: RelayServerMessage, filter: (member: Member) => boolean = () => true) => {
+    room.members.forEach(member => {
+      if (filter(member)) send(member.socket, message);
+    });
+  };
+
+  const sendPlayers = (room: Room) => broadcast(room, { type: "players", players: [...room.members.values()].map(toPlayer) });
+
+  const closeRoom = (room: Room, reason: RelayCloseReason) => {
+    clearTimeout(room.idle);
+    broadcast(room, { type: "closed", reason });
+    room.members.forEach(member => {
+      clearTimeout(member.expiry);
+      member.socket?.close(1000);
+    });
+    rooms.delete(room.code);
+    log(`[relay] room ${room.code} closed (${reason})`);
+  };
+
+  // A host that leaves, or never comes back, takes the room with it
+  const removeMember = (room: Room, member: Member, reason: RelayCloseReason) => {
+    clearTimeout(member.expiry);
+    if (member.isHost) return closeRoom(room, reason);
+    room.members.delete(member.id);
+    member.socket?.close(1000);
+    sendPlayers(room);
+  };
+
+  const seat = (room: Room, member: Member, socket: WebSocket) => {
+    clearTimeout(member.expiry);
+    if (member.socket && member.socket !== socket) member.socket.close(4000, "Replaced by a newer connection");
+    member.socket = socket;
+    room.members.set(member.id, member);
+    send(socket, { type: "joined", room: room.code, playerId: member.id, token: member.token, role: member.isHost ? "host" : "guest" });
+    sendPlayers(room);
+    // The host is the one that knows the story; everyone else catches up from the last snapshot
+    if (!member.isHost && room.snapshot) send(socket, { type: "state", snapshot: room.snapshot });
+  };
+
+  const newMember = (name: string, isHost: boolean): Member => ({ id: randomUUID(), name, token: randomUUID(), isHost, socket: null });
+
+  // Rooms nobody plays in are closed, even if their sockets stay up
+  const touch = (room: Room) => {
+    clearTimeout(room.idle);
+    room.idle = setTimeout(() => closeRoom(room, "idle"), idleMs);
+  };
+
+  const isFull = (address: string): boolean =>
+    rooms.size >= MAX_ROOMS || [...rooms.values()].filter(room => room.address === address).length >= MAX_ROOMS_PER_ADDRESS;
+
+  wss.on("connection", (socket: LiveSocket, req: IncomingMessage) => {
+    let room: Room | undefined;
+    let member: Member | undefined;
+    socket.isAlive = true;
+    socket.on("pong", () => {
+      socket.isAlive = true;
+    });
+
+    socket.on("message", (data) => {
+      const message = readMessage(data.toString());
+      if (!message) return fail(socket, "BAD_MESSAGE", "Unreadable message");
+
+      if (!member || !room) {
+        if (message.type === "create") {
+          const name = readName(message.name);
+          if (!name) return fail(socket, "BAD_NAME", "A name is needed to open a room");
+          const address = addressOf(req);
+          if (isFull(address)) return fail(socket, "TOO_MANY_ROOMS", "Too many rooms are open");
+          room = { code: newCode(rooms), address, members: new Map() };
+          rooms.set(room.code, room);
+          member = newMember(name, true);
+          log(`[relay] room ${room.code} opened`);
+        } else if (message.type === "join") {
+          const name = readName(message.name);
+          const target = rooms.get(message.room.trim().toUpperCase());
+          if (!target) return fail(socket, "NO_ROOM", "No room with that code");
+          if (!name) return fail(socket, "BAD_NAME", "A name is needed to join");
+          if (target.members.size >= MAX_PLAYERS) return fail(socket, "ROOM_FULL", "The room is full");
+          room = target;
+          member = newMember(name, false);
+        } else if (message.type === "resume") {
+          const target = rooms.get(message.room);
+          const known = target && [...target.members.values()].find(candidate => candidate.token === message.token);
+          if (!target || !known) return fail(socket, "BAD_TOKEN", "That seat is gone");
+          room = target;
+          member = known;
+        } else {
+          return fail(socket, "BAD_MESSAGE", "Join a room first");
+        }
+        touch(room);
+        return seat(room, member, socket);
+      }
+
+      touch(room);
+      switch (message.type) {
+        case "state":
+          if (!member.isHost) return fail(socket, "BAD_MESSAGE", "Only the host publishes the story");
+          room.snapshot = message.snapshot;
+          return broadcast(room, { type: "state", snapshot: message.snapshot }, other => !other.isHost);
+        case "narrative":
+          if (!member.isHost) return fail(socket, "BAD_MESSAGE", "Only the host publishes the story");
+          return broadcast(room, { type: "narrative", text: message.text }, other => !other.isHost);
+        case "choice": {
+          if (member.isHost) return fail(socket, "BAD_MESSAGE", "The host chooses in its own app");
+          const host = [...room.members.values()].find(other => other.isHost);
+          if (!host?.socket) return fail(socket, "HOST_AWAY", "The host is reconnecting, try again in a moment");
+          return send(host.socket, { type: "choice", from: toPlayer(member), choice: message.choice });
+        }
+        case "leave":
+          return removeMember(room, member, "hostLeft");
+        default:
+          return fail(socket, "BAD_MESSAGE", "Already in a room");
+      }
+    });
+
+    // A dropped player keeps their seat for a while, so a flaky connection can resume it
+    socket.on("close", () => {
+      if (!room || !member || member.socket !== socket) return;
+      const [lostRoom, lost] = [room, member];
+      lost.socket = null;
+      // Already gone: the player left, or the room closed
+      if (rooms.get(lostRoom.code) !== lostRoom || lostRoom.members.get(lost.id) !== lost) return;
+      sendPlayers(lostRoom);
+      lost.expiry = setTimeout(() => removeMember(lostRoom, lost, "expired"), graceMs);
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((client: LiveSocket) => {
+      if (!client.isAlive) return client.terminate();
+      client.isAlive = false;
+      client.ping();
+    });
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+
+  const onUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if ((req.url ?? "").split("?")[0] !== RELAY_PATH) return;
+    if (!isSameOrigin(req)) {
+      socket.end("HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n");
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, client => wss.emit("connection", client, req));
+  };
+  server.on("upgrade", onUpgrade);
+
+  // The host uploads the current illustration (PUT, with its seat's token); the players' browsers fetch it (GET)
+  const middleware: ApiMiddleware = (req, res, next) => {
+    const match = IMAGE_PATH.exec((req.url ?? "").split("?")[0]);
+    if (!match) return next();
+    const [, code, id] = match;
+    const room = rooms.get(code);
+
+    if (req.method === "GET") {
+      if (!room?.image || room.image.id !== id) return reply(res, 404, "Not found");
+      res.writeHead(200, {
+        "Content-Type": room.image.type,
+        "Cache-Control": "private, max-age=3600",
+        // An uploaded SVG must not run anything if opened directly
+        "Content-Security-Policy": "sandbox",
+        "X-Content-Type-Options": "nosniff",
+      });
+      return res.end(room.image.data);
+    }
+    if (req.method !== "PUT") return reply(res, 405, "Method not allowed");
+
+    const host = room && [...room.members.values()].find(member => member.isHost);
+    if (!room || !host || req.headers["x-relay-token"] !== host.token) return reply(res, 403, "Only the host uploads the illustration");
+    readText(req, MAX_IMAGE_BYTES).then((url) => {
+      if (url === undefined) {
+        res.setHeader("Connection", "close");
+        res.once("finish", () => req.destroy());
+        return reply(res, 413, "Image too large");
+      }
+      const image = readDataUrl(url.trim());
+      if (!image) return reply(res, 400, "Not an image data URL");
+      room.image = { id, ...image };
+      touch(room);
+      reply(res, 204);
+    }, () => reply(res, 400, "Upload failed"));
+  };
+
+  return {
+    middleware,
+    close: () => {
+      clearInterval(heartbeat);
+      server.off("upgrade", onUpgrade);
+      rooms.forEach(room => closeRoom(room, "expired"));
+      wss.close();
+    },
+  };
+};
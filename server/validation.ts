@@ -0,0 +1,96 @@
+import {
+  Attribute, CampaignProgress, Character, Choice, Difficulty, EndingKind, GameTurn, Item, ItemCategory, ItemDelta, ItemEffects, Language,
+  PartyBrief, PartyMode, SessionSnapshot, SkillCheck, SkillCheckResult, StoryContext,
+} from "../types";
+import { isRecord } from "../services/storyValidation";
+import { ENDING_KINDS } from "../services/endings";
+import { ITEM_CATEGORIES } from "../services/inventory";
+import { DIFFICULTIES } from "../services/difficulty";
+import { ATTRIBUTES } from "../services/character";
+import { MAX_PARTY_SIZE, MIN_PARTY_SIZE, PARTY_MODES } from "../services/party";
+
+// Type guards for what clients send to the server (server/api.ts, server/relay.ts).
+// They check the shape only; the engines and the host's game validate the content.
+
+const LANGUAGES: Language[] = ["es", "en"];
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.includes(value as Language);
+
+export const isDifficulty = (value: unknown): value is Difficulty => DIFFICULTIES.includes(value as Difficulty);
+
+export const isText = (value: unknown): value is string => typeof value === "string";
+
+export const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+export const isTextList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isText);
+
+export const isCharacter = (value: unknown): value is Character => {
+  if (!isRecord(value) || !isText(value.name) || !isText(value.archetype)) return false;
+  const { attributes } = value;
+  return isRecord(attributes) && ATTRIBUTES.every(attribute => isNumber(attributes[attribute]));
+};
+
+export const isSkillCheck = (value: unknown): value is SkillCheck =>
+  isRecord(value) && ATTRIBUTES.includes(value.skill as Attribute) && isNumber(value.difficulty);
+
+export const isCheckResult = (value: unknown): value is SkillCheckResult =>
+  isRecord(value) && isNumber(value.roll) && isNumber(value.modifier) && isNumber(value.total) && typeof value.success === "boolean" &&
+  isSkillCheck(value);
+
+export const isChoice = (value: unknown): value is Choice =>
+  isRecord(value) && isText(value.id) && isText(value.text) && (value.check === undefined || isSkillCheck(value.check));
+
+const isItemEffects = (value: unknown): value is ItemEffects => {
+  if (!isRecord(value) || (value.heal !== undefined && !isNumber(value.heal))) return false;
+  const { skillBonus } = value;
+  return skillBonus === undefined ||
+    (isRecord(skillBonus) && ATTRIBUTES.includes(skillBonus.skill as Attribute) && isNumber(skillBonus.amount));
+};
+
+export const isItem = (value: unknown): value is Item =>
+  isRecord(value) && isText(value.id) && isText(value.name) && isText(value.description) &&
+  ITEM_CATEGORIES.includes(value.category as ItemCategory) && isNumber(value.quantity) &&
+  (value.effects === undefined || isItemEffects(value.effects));
+
+export const isInventory = (value: unknown): value is Item[] => Array.isArray(value) && value.every(isItem);
+
+// The opening turn has no choice before it
+export const isLastChoice = (value: unknown): value is Choice | null => value === null || isChoice(value);
+
+export const isStoryContext = (value: unknown): value is StoryContext => {
+  if (!isRecord(value) || !isText(value.summary) || !Array.isArray(value.recentTurns)) return false;
+  const { facts } = value;
+  return isRecord(facts) && (["characters", "places", "openQuests", "goals", "npcs", "factions"] as const).every(key => Array.isArray(facts[key]));
+};
+
+export const isCampaignProgress = (value: unknown): value is CampaignProgress => {
+  if (!isRecord(value) || !isNumber(value.beatIndex)) return false;
+  const { campaign } = value;
+  return isRecord(campaign) && isText(campaign.title) && isTextList(campaign.beats) && isTextList(campaign.winConditions) &&
+    isTextList(campaign.loseConditions) && Array.isArray(campaign.npcs) && Array.isArray(campaign.locations);
+};
+
+export const isPartyBrief = (value: unknown): value is PartyBrief => {
+  if (!isRecord(value) || !PARTY_MODES.includes(value.mode as PartyMode) || !Array.isArray(value.members) || !isText(value.next)) return false;
+  const { members, next } = value;
+  return members.length >= MIN_PARTY_SIZE && members.length <= MAX_PARTY_SIZE &&
+    members.every(member => isRecord(member) && isText(member.name) && isText(member.archetype) && isNumber(member.hp)) &&
+    members.some(member => member.name === next);
+};
+
+const isItemDelta = (value: unknown): value is ItemDelta =>
+  isRecord(value) && isText(value.id) && isText(value.name) && isNumber(value.quantity);
+
+// A played turn as a host publishes it; illustrations travel apart, so a turn carrying one is refused
+const isPublishedTurn = (value: unknown): value is GameTurn =>
+  isRecord(value) && isText(value.text) && value.imageUrl === undefined && Array.isArray(value.choices) && value.choices.every(isChoice) &&
+  isNumber(value.hpChange) && Array.isArray(value.inventoryAdded) && value.inventoryAdded.every(isItemDelta) &&
+  Array.isArray(value.inventoryRemoved) && value.inventoryRemoved.every(isItemDelta) &&
+  (value.chosenChoice === undefined || isChoice(value.chosenChoice)) && (value.chosenBy === undefined || isText(value.chosenBy)) &&
+  (value.checkResult === undefined || isCheckResult(value.checkResult)) &&
+  (value.ending === undefined || ENDING_KINDS.includes(value.ending as EndingKind));
+
+export const isSnapshot = (value: unknown): value is SessionSnapshot =>
+  isRecord(value) && isText(value.theme) && isLanguage(value.language) && isCharacter(value.character) && isNumber(value.hp) &&
+  Array.isArray(value.turns) && value.turns.every(isPublishedTurn) && (value.imageId === undefined || isText(value.imageId)) &&
+  typeof value.isGameOver === "boolean" && typeof value.isWaiting === "boolean" && typeof value.acceptsChoices === "boolean";
@@ -0,0 +1,107 @@
+import { Campaign, CampaignEntry, CampaignProgress, EndingKind } from "../types";
+import { ValidationIssue, isRecord, validateItems, validateStoryResponse } from "./storyValidation";
+
+export const MAX_STARTING_HP = 100;
+
+// Thrown when a campaign file can't be played. issues lists every problem found, for the author.
+export class CampaignError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid campaign: ${issues.join("; ")}`);
+    this.name = "CampaignError";
+    this.issues = issues;
+  }
+}
+
+const readText = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+const readTexts = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(readText).filter(text => text !== "") : [];
+
+// Entries may be a bare name or { name, description }
+const readEntries = (value: unknown): CampaignEntry[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(raw => (isRecord(raw) ? { name: readText(raw.name), description: readText(raw.description) } : { name: readText(raw), description: "" }))
+    .filter(entry => entry.name !== "");
+};
+
+// Checks a campaign file and returns it ready to play, or throws CampaignError
+export const parseCampaign = (text: string): Campaign => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new CampaignError(["the file is not valid JSON"]);
+  }
+  if (!isRecord(raw)) throw new CampaignError(["the file does not contain a campaign object"]);
+
+  const problems: string[] = [];
+  const title = readText(raw.title);
+  const theme = readText(raw.theme) || title;
+  if (!title) problems.push("title is missing");
+
+  // The opening is played as written, so it must pass the same checks as an engine response
+  const opening = validateStoryResponse(raw.opening, []);
+  opening.issues.filter(issue => !issue.repaired).forEach(issue => problems.push(`opening: ${issue.message}`));
+  if (opening.response.ending) problems.push("opening: cannot end the game");
+
+  const beats = readTexts(raw.beats);
+  if (beats.length === 0) problems.push("beats must list at least one plot point");
+
+  const startingHp = raw.startingHp === undefined ? MAX_STARTING_HP : raw.startingHp;
+  if (typeof startingHp !== "number" || !Number.isInteger(startingHp) || startingHp < 1 || startingHp > MAX_STARTING_HP) {
+    problems.push(`startingHp must be a whole number between 1 and ${MAX_STARTING_HP}`);
+  }
+
+  const itemIssues: ValidationIssue[] = [];
+  const startingInventory = validateItems(raw.startingInventory, itemIssues);
+  itemIssues.forEach(issue => problems.push(`startingInventory: ${issue.message.replace("inventoryAdd ", "")}`));
+
+  if (problems.length > 0) throw new CampaignError(problems);
+
+  return {
+    title,
+    theme,
+    opening: opening.response,
+    npcs: readEntries(raw.npcs),
+    locations: readEntries(raw.locations),
+    beats,
+    winConditions: readTexts(raw.winConditions),
+    loseConditions: readTexts(raw.loseConditions),
+    startingHp: startingHp as number,
+    startingInventory,
+  };
+};
+
+// Beats are reached one at a time and never skipped
+export const advanceBeat = (campaign: Campaign, beatIndex: number, beatReached: boolean): number =>
+  beatReached ? Math.min(beatIndex + 1, campaign.beats.length) : beatIndex;
+
+// A campaign is only won once every beat has happened: an earlier victory is dropped,
+// the way the difficulty drops a death it does not allow
+export const resolveCampaignEnding = (campaign: Campaign, beatIndex: number, ending: EndingKind | null): EndingKind | null =>
+  ending === "victory" && beatIndex < campaign.beats.length ? null : ending;
+
+// Prompt-ready rendering of the campaign and where the run stands in it
+export const formatCampaign = ({ campaign, beatIndex }: CampaignProgress): string => {
+  const entries = (items: CampaignEntry[]) =>
+    items.map(item => `${item.name}${item.description ? `: ${item.description}` : ""}`).join("; ") || "Ninguno";
+  const list = (items: string[]) => items.join("; ") || "Ninguna";
+  const beats = campaign.beats
+    .map((beat, idx) => `${idx + 1}. ${idx < beatIndex ? "[CUMPLIDO] " : idx === beatIndex ? "[ACTUAL] " : ""}${beat}`)
+    .join("\n");
+  const current = campaign.beats[beatIndex];
+
+  return `
+    Campaña: ${campaign.title}
+    Personajes de la campaña: ${entries(campaign.npcs)}
+    Lugares clave: ${entries(campaign.locations)}
+    Momentos obligatorios de la trama, en orden:
+${beats}
+    ${current ? `Objetivo actual: ${current} Encamina la historia hacia él sin forzarlo en un solo turno. No pongas ending en "victory" antes de cumplir todos los momentos.` : "Todos los momentos se han cumplido: lleva la historia hacia su desenlace."}
+    Condiciones de victoria: ${list(campaign.winConditions)}
+    Condiciones de derrota: ${list(campaign.loseConditions)}
+  `;
+};
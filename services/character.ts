@@ -0,0 +1,75 @@
+import { Archetype, Attribute, Attributes, Character, Language, SkillCheck, SkillCheckResult } from "../types";
+
+export const ATTRIBUTES: Attribute[] = ["strength", "agility", "wits"];
+
+// Every archetype spreads this many points; the player adds BONUS_POINTS on top
+export const ARCHETYPE_POINTS = 6;
+export const BONUS_POINTS = 2;
+export const MAX_ATTRIBUTE = 5;
+export const MAX_ARCHETYPE_ATTRIBUTE = 4;
+
+export const MIN_DIFFICULTY = 5;
+export const MAX_DIFFICULTY = 20;
+
+// Used when the engine can't come up with themed ones
+export const DEFAULT_ARCHETYPES: Record<Language, Archetype[]> = {
+  es: [
+    { name: "Guerrero", description: "Resiste golpes y los devuelve con más fuerza.", attributes: { strength: 4, agility: 1, wits: 1 } },
+    { name: "Explorador", description: "Rápido, sigiloso y difícil de atrapar.", attributes: { strength: 1, agility: 4, wits: 1 } },
+    { name: "Erudito", description: "Resuelve con la cabeza lo que otros resuelven a golpes.", attributes: { strength: 1, agility: 1, wits: 4 } },
+  ],
+  en: [
+    { name: "Warrior", description: "Takes the blows and hits back harder.", attributes: { strength: 4, agility: 1, wits: 1 } },
+    { name: "Scout", description: "Fast, stealthy and hard to catch.", attributes: { strength: 1, agility: 4, wits: 1 } },
+    { name: "Scholar", description: "Solves with the mind what others solve with their fists.", attributes: { strength: 1, agility: 1, wits: 4 } },
+  ],
+};
+
+// Characters from saves that predate character creation
+export const DEFAULT_CHARACTER: Character = {
+  name: "Aventurero",
+  archetype: "Aventurero",
+  attributes: { strength: 2, agility: 2, wits: 2 },
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Forces any spread to exactly ARCHETYPE_POINTS, taking from the highest and giving to the lowest
+export const balanceAttributes = (raw: Partial<Record<Attribute, unknown>>): Attributes => {
+  const attributes = Object.fromEntries(
+    ATTRIBUTES.map(attr => [attr, clamp(Math.round(Number(raw[attr]) || 0), 0, MAX_ARCHETYPE_ATTRIBUTE)])
+  ) as Attributes;
+
+  const total = () => ATTRIBUTES.reduce((sum, attr) => sum + attributes[attr], 0);
+  while (total() > ARCHETYPE_POINTS) {
+    const highest = ATTRIBUTES.reduce((a, b) => (attributes[b] > attributes[a] ? b : a));
+    attributes[highest]--;
+  }
+  while (total() < ARCHETYPE_POINTS) {
+    const lowest = ATTRIBUTES.reduce((a, b) => (attributes[b] < attributes[a] ? b : a));
+    attributes[lowest]++;
+  }
+  return attributes;
+};
+
+export const normalizeDifficulty = (difficulty: number) => clamp(Math.round(difficulty), MIN_DIFFICULTY, MAX_DIFFICULTY);
+
+// Chance of passing a check, natural 1s and 20s included
+export const successChance = (attributes: Attributes, check: SkillCheck): number => {
+  const needed = check.difficulty - attributes[check.skill];
+  const winningFaces = clamp(21 - needed, 1, 19);
+  return winningFaces / 20;
+};
+
+// d20 + attribute against the difficulty. A natural 20 always succeeds, a natural 1 always fails.
+export const rollSkillCheck = (
+  attributes: Attributes,
+  check: SkillCheck,
+  random: () => number = Math.random
+): SkillCheckResult => {
+  const roll = Math.floor(random() * 20) + 1;
+  const modifier = attributes[check.skill];
+  const total = roll + modifier;
+  const success = roll === 20 || (roll !== 1 && total >= check.difficulty);
+  return { ...check, roll, modifier, total, success };
+};
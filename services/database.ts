@@ -0,0 +1,103 @@
+const DB_NAME = "ai-chronicles";
+const DB_VERSION = 3;
+
+export const SAVES_STORE = "saves";
+export const IMAGES_STORE = "images";
+
+// Stores keyed by their record's field, with the fields they are searched by, created the first time a version needs them
+const STORES: Record<string, { keyPath: string; indexes?: string[] }> = {
+  [SAVES_STORE]: { keyPath: "id" },
+  [IMAGES_STORE]: { keyPath: "hash", indexes: ["usedAt"] },
+};
+
+// Another tab still holds an older version of the database open, so this one can't upgrade it
+export class DatabaseBlockedError extends Error {
+  constructor() {
+    super("The database upgrade is blocked by another open tab of the game");
+    this.name = "DatabaseBlockedError";
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      let blocked = false;
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        // Version 3 indexes cached images by last use. The cache is only a cache, so it is dropped rather than migrated.
+        if (event.oldVersion < 3 && db.objectStoreNames.contains(IMAGES_STORE)) db.deleteObjectStore(IMAGES_STORE);
+        Object.entries(STORES).forEach(([name, { keyPath, indexes = [] }]) => {
+          if (!db.objectStoreNames.contains(name)) {
+            const store = db.createObjectStore(name, { keyPath });
+            indexes.forEach(index => store.createIndex(index, index));
+          }
+        });
+      };
+      // Fail now instead of hanging until the other tab closes; the next call tries again
+      request.onblocked = () => {
+        blocked = true;
+        dbPromise = null;
+        reject(new DatabaseBlockedError());
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // The upgrade went through after we gave up on it, nobody is waiting for this connection
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // A newer version opened in another tab: step aside so it can upgrade, and reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs a single request against one store and resolves with its result
+export const withStore = async <T>(
+  store: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Deletes the records that sort first by the index until at most keep are left
+export const pruneStore = async (store: string, index: string, keep: number): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, "readwrite");
+    const records = transaction.objectStore(store);
+    const count = records.count();
+    count.onsuccess = () => {
+      let excess = count.result - keep;
+      if (excess <= 0) return;
+      const cursor = records.index(index).openKeyCursor();
+      cursor.onsuccess = () => {
+        if (!cursor.result || excess <= 0) return;
+        records.delete(cursor.result.primaryKey);
+        excess--;
+        cursor.result.continue();
+      };
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
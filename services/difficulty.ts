@@ -0,0 +1,40 @@
+import { Difficulty, DifficultyRules, EndingKind } from "../types";
+
+export const MAX_HP = 100;
+
+export const DIFFICULTIES: Difficulty[] = ["story", "normal", "hardcore"];
+
+export const DEFAULT_DIFFICULTY: Difficulty = "normal";
+
+export const DIFFICULTY_RULES: Record<Difficulty, DifficultyRules> = {
+  story: { startingHp: 100, maxDamage: 15, maxHeal: 50, canDie: false, suddenDeath: false, permadeath: false },
+  normal: { startingHp: 100, maxDamage: 35, maxHeal: 20, canDie: true, suddenDeath: false, permadeath: false },
+  hardcore: { startingHp: 60, maxDamage: 60, maxHeal: 0, canDie: true, suddenDeath: true, permadeath: true },
+};
+
+// The story engine proposes the HP change, the difficulty decides how much of it happens
+export const applyHpChange = (difficulty: Difficulty, hp: number, change: number): number => {
+  const rules = DIFFICULTY_RULES[difficulty];
+  const limited = change < 0 ? Math.max(change, -rules.maxDamage) : Math.min(change, rules.maxHeal);
+  return Math.min(MAX_HP, Math.max(rules.canDie ? 0 : 1, hp + limited));
+};
+
+// Ending that stands after the rules: running out of HP is death, and a death the
+// story announces with HP left only counts where sudden death is allowed
+export const resolveEnding = (difficulty: Difficulty, hp: number, ending: EndingKind | null): EndingKind | null => {
+  if (hp <= 0) return "death";
+  return ending === "death" && !DIFFICULTY_RULES[difficulty].suddenDeath ? null : ending;
+};
+
+// Prompt-ready description of the rules, so the story is written within them
+export const formatDifficulty = (difficulty: Difficulty): string => {
+  const rules = DIFFICULTY_RULES[difficulty];
+  return [
+    `Cada turno quita como mucho ${rules.maxDamage} de vida`,
+    rules.maxHeal > 0 ? `y cura como mucho ${rules.maxHeal}.` : "y la historia nunca cura: solo los objetos curan.",
+    rules.canDie ? "" : "El personaje no puede morir: los peligros lo hieren o lo complican, nunca lo matan.",
+    rules.suddenDeath
+      ? "Los errores graves pueden ser mortales aunque quede vida: entonces pon ending en \"death\"."
+      : "No termines la partida con una muerte mientras le quede vida; el juego la ignoraría.",
+  ].filter(Boolean).join(" ");
+};
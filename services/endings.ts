@@ -0,0 +1,24 @@
+import { EndingKind, GameTurn, Goal } from "../types";
+
+export const ENDING_KINDS: EndingKind[] = ["death", "victory", "escape", "abandoned"];
+
+// Endings the story engine can reach; abandoning is the player's call
+export const ENGINE_ENDINGS: EndingKind[] = ["death", "victory", "escape"];
+
+export const GOAL_ENDINGS: Goal["ending"][] = ["victory", "escape"];
+
+export interface RunStats {
+  turns: number;
+  damageTaken: number;
+  itemsCollected: number;
+}
+
+// Totals over the played path, healing doesn't offset damage
+export const runStats = (history: GameTurn[]): RunStats => ({
+  turns: history.length,
+  damageTaken: history.reduce((total, turn) => total + Math.max(0, -turn.hpChange), 0),
+  itemsCollected: history.reduce((total, turn) => total + turn.inventoryAdded.reduce((sum, delta) => sum + delta.quantity, 0), 0),
+});
+
+// A finished run whose last turn has no ending was left by the player
+export const endingOf = (turn: GameTurn | null): EndingKind => turn?.ending ?? "abandoned";
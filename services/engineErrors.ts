@@ -0,0 +1,28 @@
+export type StoryErrorKind =
+  | "RATE_LIMIT" // Quota or requests-per-minute exceeded
+  | "SAFETY_BLOCK" // The provider refused the prompt or its own output
+  | "NETWORK" // Connection lost or provider unavailable
+  | "MALFORMED_OUTPUT" // Answer arrived but can't be used
+  | "ABORTED" // Cancelled by the player, not a failure
+  | "UNKNOWN";
+
+const RETRYABLE: StoryErrorKind[] = ["RATE_LIMIT", "NETWORK", "MALFORMED_OUTPUT"];
+
+// Every failure a story or image engine reports goes through this class
+export class StoryEngineError extends Error {
+  readonly kind: StoryErrorKind;
+
+  constructor(kind: StoryErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "StoryEngineError";
+    this.kind = kind;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+export const abortedError = (cause?: unknown) => new StoryEngineError("ABORTED", "Request cancelled", { cause });
+
+export const isAborted = (error: unknown) => error instanceof StoryEngineError && error.kind === "ABORTED";
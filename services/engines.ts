@@ -0,0 +1,9 @@
+import { Engines } from "../types";
+import { createProxyEngines } from "./proxyEngine";
+import { createScriptedEngines } from "./scriptedEngine";
+
+// Picks the providers for this session.
+// STORY_ENGINE=scripted plays the offline script in the browser, with no server at all.
+// Otherwise the app's own /api endpoints are called; the server holds the key (server/api.ts).
+export const selectEngines = (): Engines =>
+  process.env.STORY_ENGINE === "scripted" ? createScriptedEngines() : createProxyEngines();
@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import { Character, Choice, StoryEngineResponse } from "../types";
+import { parseCampaign } from "./campaign";
+import { EngineState, GameEvent, createEngineState, gameReducer } from "./gameEngine";
+import campaignExample from "./scripts/campaign-example.json";
+import { activeHistory } from "./storyTree";
+
+const HERO: Character = { name: "Ada", archetype: "Exploradora", attributes: { strength: 2, agility: 3, wits: 1 } };
+
+const CHOICES: Choice[] = [
+  { id: "door", text: "Open the door" },
+  { id: "jump", text: "Jump the gap", check: { skill: "agility", difficulty: 12 } },
+  { id: "wait", text: "Wait" },
+  { id: "back", text: "Go back" },
+];
+
+const segment = (changes: Partial<StoryEngineResponse> = {}): StoryEngineResponse => ({
+  narrative: "Something happens.",
+  hpChange: 0,
+  inventoryAdd: [],
+  inventoryRemove: [],
+  visualDescription: "",
+  ending: null,
+  goals: [],
+  choices: CHOICES,
+  newCharacters: [],
+  newPlaces: [],
+  questsOpened: [],
+  questsResolved: [],
+  beatReached: false,
+  npcs: [],
+  factions: [],
+  ...changes,
+});
+
+const play = (state: EngineState, ...events: GameEvent[]): EngineState => events.reduce(gameReducer, state);
+
+// Answers whatever request is pending with the given segment
+const answer = (state: EngineState, nodeId: string, changes: Partial<StoryEngineResponse> = {}): EngineState =>
+  gameReducer(state, { type: "turnReceived", requestId: state.pending!.requestId, nodeId, response: segment(changes) });
+
+const CAMPAIGN = parseCampaign(JSON.stringify(campaignExample));
+
+const campaignStarted = (difficulty: "story" | "normal" | "hardcore" = "normal") => play(createEngineState(), {
+  type: "start", theme: CAMPAIGN.theme, character: HERO, artStyle: "painterly", difficulty, campaign: CAMPAIGN, openingId: "opening",
+});
+
+const started = (difficulty: "story" | "normal" | "hardcore" = "normal") => answer(
+  play(createEngineState(), { type: "start", theme: "Ruins", character: HERO, artStyle: "painterly", difficulty, openingId: "unused" }),
+  "opening",
+);
+
+describe("gameReducer", () => {
+  it("asks for the opening turn on start and plays it when it arrives", () => {
+    const requested = play(createEngineState(), {
+      type: "start", theme: "Ruins", character: HERO, artStyle: "painterly", difficulty: "normal", openingId: "unused",
+    });
+    expect(requested.phase).toBe("PLAYING");
+    expect(requested.pending).toMatchObject({ parentId: null, choice: null, hp: 100 });
+
+    const state = answer(requested, "opening");
+    expect(state.pending).toBeNull();
+    expect(state.game.tree.currentId).toBe("opening");
+    expect(activeHistory(state.game.tree)).toHaveLength(1);
+  });
+
+  it("ignores answers to requests that are no longer pending", () => {
+    const state = started();
+    const chosen = gameReducer(state, { type: "choose", choice: CHOICES[0], dice: 0.5 });
+    const stale = gameReducer(chosen, { type: "turnReceived", requestId: chosen.pending!.requestId - 1, nodeId: "x", response: segment() });
+    expect(stale).toBe(chosen);
+  });
+
+  it("rolls a choice's check with the event's dice and records it on the turn left behind", () => {
+    const state = gameReducer(started(), { type: "choose", choice: CHOICES[1], dice: 0.99 });
+    expect(state.pending?.checkResult).toMatchObject({ roll: 20, modifier: 3, success: true });
+    expect(state.game.tree.nodes.opening.turn.chosenChoice?.id).toBe("jump");
+
+    const failed = gameReducer(started(), { type: "choose", choice: CHOICES[1], dice: 0 });
+    expect(failed.pending?.checkResult).toMatchObject({ roll: 1, success: false });
+  });
+
+  it("applies the turn's HP change within the difficulty's limits", () => {
+    const state = answer(gameReducer(started(), { type: "choose", choice: CHOICES[0], dice: 0.5 }), "hit", { hpChange: -80 });
+    expect(state.game.hp).toBe(65); // normal caps damage at 35
+    expect(state.game.tree.nodes.hit.turn.hpChange).toBe(-35);
+  });
+
+  it("ends the run when HP runs out", () => {
+    const state = play(started("hardcore"), { type: "choose", choice: CHOICES[0], dice: 0.5 });
+    const dead = answer(state, "dead", { hpChange: -60, ending: "death", choices: [] });
+    expect(dead.phase).toBe("GAMEOVER");
+    expect(dead.game.isGameOver).toBe(true);
+    expect(dead.game.tree.nodes.dead.turn.ending).toBe("death");
+  });
+
+  it("revisits an explored branch instead of asking for it again", () => {
+    const first = answer(gameReducer(started(), { type: "choose", choice: CHOICES[0], dice: 0.5 }), "door", { hpChange: -10 });
+    const back = gameReducer(first, { type: "goTo", nodeId: "opening" });
+    expect(back.game.hp).toBe(100);
+
+    const again = gameReducer(back, { type: "choose", choice: CHOICES[0], dice: 0.5 });
+    expect(again.pending).toBeNull();
+    expect(again.game.tree.currentId).toBe("door");
+    expect(again.game.hp).toBe(90);
+  });
+
+  it("rewinds to a turn with the HP, inventory and facts it had", () => {
+    const item = { id: "rope", name: "Rope", description: "", category: "key" as const, quantity: 1 };
+    const later = answer(gameReducer(started(), { type: "choose", choice: CHOICES[0], dice: 0.5 }), "door", {
+      hpChange: -20,
+      inventoryAdd: [item],
+      newPlaces: ["Hall"],
+    });
+    const rewound = gameReducer(later, { type: "goTo", nodeId: "opening" });
+    expect(rewound.game.hp).toBe(100);
+    expect(rewound.game.inventory).toEqual([]);
+    expect(rewound.game.memory.facts.places).toEqual([]);
+    expect(rewound.game.tree.nodes.opening.turn.chosenChoice).toBeUndefined();
+    expect(rewound.runId).toBeGreaterThan(later.runId);
+  });
+
+  it("never rewinds a permadeath run", () => {
+    const later = answer(gameReducer(started("hardcore"), { type: "choose", choice: CHOICES[0], dice: 0.5 }), "door");
+    expect(gameReducer(later, { type: "goTo", nodeId: "opening" })).toBe(later);
+  });
+
+  it("replays the pending choice and roll of a permadeath run reloaded mid-turn", () => {
+    const rolling = gameReducer(started("hardcore"), { type: "choose", choice: CHOICES[1], dice: 0 });
+    const reloaded = gameReducer(createEngineState(), { type: "load", state: rolling.game });
+    expect(reloaded.pending).toMatchObject({ parentId: "opening", choice: CHOICES[1], checkResult: { roll: 1, success: false } });
+
+    const normal = gameReducer(started(), { type: "choose", choice: CHOICES[1], dice: 0 });
+    expect(gameReducer(createEngineState(), { type: "load", state: normal.game }).pending).toBeNull();
+  });
+
+  it("keeps a fallen party member's last segment and asks only for the next player's choices", () => {
+    const partyStart = play(createEngineState(), {
+      type: "start", theme: "Ruins", character: HERO, artStyle: "painterly", difficulty: "hardcore", openingId: "unused",
+      party: { mode: "rotation", companions: [{ ...HERO, name: "Bo" }] },
+    });
+    const chosen = gameReducer(answer(partyStart, "opening"), { type: "choose", choice: CHOICES[0], dice: 0.5 });
+    const fallen = answer(chosen, "fall", { narrative: "Ada falls.", hpChange: -100, ending: "death", choices: [] });
+
+    expect(fallen.phase).toBe("PLAYING");
+    expect(fallen.game.tree.currentId).toBe("fall");
+    expect(fallen.game.tree.nodes.fall.turn).toMatchObject({ text: "Ada falls.", choices: [] });
+    expect(fallen.game.party?.members[0].hp).toBe(0);
+    expect(fallen.game.character.name).toBe("Bo");
+    expect(fallen.pending).toMatchObject({ choicesFor: "fall", party: { next: "Bo" } });
+
+    const resumed = gameReducer(fallen, { type: "choicesReceived", requestId: fallen.pending!.requestId, choices: CHOICES });
+    expect(resumed.pending).toBeNull();
+    expect(resumed.game.tree.nodes.fall.turn.choices).toEqual(CHOICES);
+  });
+
+  it("plays a campaign's opening within the difficulty's limits", () => {
+    const campaign = { ...CAMPAIGN, startingHp: 100, opening: { ...CAMPAIGN.opening, hpChange: -80 } };
+    const state = play(createEngineState(), {
+      type: "start", theme: campaign.theme, character: HERO, artStyle: "painterly", difficulty: "normal", campaign, openingId: "opening",
+    });
+    expect(state.game.hp).toBe(65);
+    expect(state.game.tree.nodes.opening.turn.hpChange).toBe(-35);
+  });
+
+  it("starts a campaign with the lower of its own and the difficulty's starting HP", () => {
+    const hardcore = campaignStarted("hardcore");
+    expect(hardcore.game.tree.nodes.opening.hp - hardcore.game.tree.nodes.opening.turn.hpChange).toBe(60);
+
+    const weak = play(createEngineState(), {
+      type: "start", theme: CAMPAIGN.theme, character: HERO, artStyle: "painterly", difficulty: "normal",
+      campaign: { ...CAMPAIGN, startingHp: 40, opening: { ...CAMPAIGN.opening, hpChange: 0 } }, openingId: "opening",
+    });
+    expect(weak.game.hp).toBe(40);
+  });
+
+  it("drops a campaign victory that comes before the last beat", () => {
+    const chosen = gameReducer(campaignStarted(), { type: "choose", choice: CHOICES[0], dice: 0.5 });
+    const early = answer(chosen, "early", { ending: "victory", beatReached: true });
+    expect(early.phase).toBe("PLAYING");
+    expect(early.game.tree.nodes.early.turn.ending).toBeUndefined();
+
+    // With no way forward written, the turn is asked for again
+    const stuck = answer(chosen, "stuck", { ending: "victory", choices: [] });
+    expect(stuck.failed?.error.kind).toBe("MALFORMED_OUTPUT");
+
+    const last = { ...chosen, pending: { ...chosen.pending!, beatIndex: CAMPAIGN.beats.length - 1 } };
+    const won = answer(last, "won", { ending: "victory", beatReached: true, choices: [] });
+    expect(won.phase).toBe("GAMEOVER");
+    expect(won.game.tree.nodes.won.turn.ending).toBe("victory");
+  });
+});
@@ -0,0 +1,427 @@
+import {
+  ArtStyle, Campaign, Character, Choice, Difficulty, GameState, Item, ItemDelta, PartyBrief, PartyMode, PartyVote,
+  SkillCheckResult, StoryContext, StoryEngineResponse, StoryNode,
+} from "../types";
+import { StoryEngineError } from "./engineErrors";
+import { DEFAULT_CHARACTER, rollSkillCheck } from "./character";
+import { applyInventoryChanges, effectiveAttributes, findItem } from "./inventory";
+import { buildStoryContext, createStoryMemory, mergeFacts } from "./storyMemory";
+import { activeHistory, addNode, createStoryTree, findExploredChild, moveTo, pathTo, sharedDepth, updateTurn } from "./storyTree";
+import { DEFAULT_ART_STYLE, buildImagePrompt } from "./sceneImages";
+import { advanceBeat, resolveCampaignEnding } from "./campaign";
+import { DEFAULT_DIFFICULTY, DIFFICULTY_RULES, MAX_HP, applyHpChange, resolveEnding } from "./difficulty";
+import { createParty, isStanding, nextActive, nextVoter, partyBrief, passTurn, storeSheet, tallyVotes } from "./party";
+
+export type GamePhase = "START" | "PLAYING" | "GAMEOVER";
+
+// A story engine request the game is waiting on. The UI runs it and answers with turnReceived or turnFailed.
+export interface PendingTurn {
+  requestId: number;
+  parentId: string | null; // null for the opening turn
+  choice: Choice | null;
+  checkResult?: SkillCheckResult;
+  hp: number; // After any item action, as the story engine sees it
+  inventory: Item[];
+  itemRemoved: ItemDelta[]; // Taken by the item action before the engine was asked
+  depth: number; // Turns on the path before the requested one
+  context: StoryContext;
+  beatIndex: number; // Campaign beats completed on the parent turn
+  party?: PartyBrief; // Party runs: who is in the party and who the new segment addresses
+  choicesFor?: string; // Only the choices of this node are missing: its actor fell and the party plays on
+}
+
+export interface EngineState {
+  phase: GamePhase;
+  game: GameState; // What gets saved; game.isGameOver follows phase
+  pending: PendingTurn | null;
+  failed: { turn: PendingTurn; error: StoryEngineError } | null; // Last request failed, the story did not advance
+  streamingText: string | null; // Narrative of the pending turn so far
+  drawing: string[]; // Nodes whose illustration is being drawn
+  runId: number; // Changes whenever the played path is replaced, so late summaries are dropped
+  nextRequestId: number;
+  votes: PartyVote[]; // Cast on the current turn, party vote mode only
+}
+
+// Everything that can happen to a game. Randomness and ids come in with the event, so the reducer stays pure.
+export type GameEvent =
+  | {
+      type: "start";
+      theme: string;
+      character: Character;
+      artStyle: ArtStyle;
+      difficulty: Difficulty;
+      campaign?: Campaign;
+      party?: { mode: PartyMode; companions: Character[] }; // The other players, in turn order after character
+      openingId: string;
+    }
+  | { type: "load"; state: GameState }
+  | { type: "choose"; choice: Choice; dice: number } // dice: a Math.random() draw for the choice's check
+  | { type: "vote"; choice: Choice; dice: number } // Party vote mode: the next player's vote, dice as for choose
+  | { type: "narrative"; requestId: number; text: string }
+  | { type: "turnReceived"; requestId: number; nodeId: string; response: StoryEngineResponse }
+  | { type: "choicesReceived"; requestId: number; choices: Choice[] }
+  | { type: "turnFailed"; requestId: number; error: StoryEngineError }
+  | { type: "retry" }
+  | { type: "goTo"; nodeId: string }
+  | { type: "imageRequested"; nodeId: string }
+  | { type: "imageReceived"; nodeId: string; url?: string } // No url means the drawing failed
+  | { type: "imagesCancelled" }
+  | { type: "summaryReceived"; runId: number; summary: string; summarizedTurns: number }
+  | { type: "abandon" }
+  | { type: "reset" };
+
+const createGameState = (): GameState => ({
+  hp: DIFFICULTY_RULES[DEFAULT_DIFFICULTY].startingHp,
+  inventory: [],
+  tree: createStoryTree(),
+  isGameOver: false,
+  theme: "",
+  memory: createStoryMemory(),
+  character: DEFAULT_CHARACTER,
+  artStyle: DEFAULT_ART_STYLE,
+  difficulty: DEFAULT_DIFFICULTY,
+});
+
+export const createEngineState = (): EngineState => ({
+  phase: "START",
+  game: createGameState(),
+  pending: null,
+  failed: null,
+  streamingText: null,
+  drawing: [],
+  runId: 0,
+  nextRequestId: 1,
+  votes: [],
+});
+
+// Keeps the saved flag in step with the phase
+const withPhase = (state: EngineState, phase: GamePhase): EngineState => ({
+  ...state,
+  phase,
+  game: { ...state.game, isGameOver: phase === "GAMEOVER" },
+});
+
+// Replaces the run being played: anything in flight for the old one is dropped
+const newRun = (state: EngineState, game: GameState, phase: GamePhase): EngineState =>
+  withPhase({ ...state, game, pending: null, failed: null, streamingText: null, drawing: [], runId: state.runId + 1, votes: [] }, phase);
+
+const request = (state: EngineState, turn: Omit<PendingTurn, "requestId">): EngineState => ({
+  ...state,
+  pending: { ...turn, requestId: state.nextRequestId },
+  failed: null,
+  streamingText: "",
+  nextRequestId: state.nextRequestId + 1,
+  votes: [],
+});
+
+export const imagePromptFor = (game: GameState, response: StoryEngineResponse): string | undefined =>
+  response.visualDescription ? buildImagePrompt(game.artStyle, game.character, response.visualDescription) : undefined;
+
+// Using a consumable or dropping something is resolved by the game; the story engine only narrates it
+const resolveItemAction = ({ hp, inventory }: GameState, choice: Choice): { hp: number; inventory: Item[]; removed: ItemDelta[] } => {
+  const action = choice.itemAction;
+  const item = action ? findItem(inventory, action.itemId) : undefined;
+  if (!action || !item || action.kind === "inspect" || (action.kind === "use" && item.category !== "consumable")) {
+    return { hp, inventory, removed: [] };
+  }
+  const spent = action.kind === "use" ? 1 : item.quantity;
+  const { inventory: next, removed } = applyInventoryChanges(inventory, [], [{ id: item.id, quantity: spent }]);
+  const heal = action.kind === "use" ? item.effects?.heal ?? 0 : 0;
+  return { hp: Math.min(MAX_HP, hp + heal), inventory: next, removed };
+};
+
+const start = (state: EngineState, { theme, character, artStyle, difficulty, campaign, party, openingId }: Extract<GameEvent, { type: "start" }>): EngineState => {
+  // A campaign may start the hero weaker than the difficulty does, never stronger
+  const presetHp = DIFFICULTY_RULES[difficulty].startingHp;
+  const startingHp = campaign ? Math.min(campaign.startingHp, presetHp) : presetHp;
+  const startingInventory = campaign?.startingInventory ?? [];
+  const game: GameState = {
+    ...createGameState(),
+    hp: startingHp,
+    inventory: startingInventory,
+    theme,
+    character,
+    artStyle,
+    difficulty,
+    ...(campaign && { campaign }),
+    ...(party && { party: createParty(party.mode, [character, ...party.companions], startingHp, startingInventory) }),
+  };
+  if (!campaign) {
+    return request(newRun(state, game, "PLAYING"), {
+      parentId: null,
+      choice: null,
+      hp: game.hp,
+      inventory: game.inventory,
+      itemRemoved: [],
+      depth: 0,
+      context: buildStoryContext(game.memory, []),
+      beatIndex: 0,
+      ...(game.party && { party: partyBrief(game.party, 0) }),
+    });
+  }
+
+  // A campaign's opening is written by its author, so it is played without asking the story engine,
+  // but under the same difficulty limits as any other turn; it never kills. In a party it happens to the first player.
+  const { opening } = campaign;
+  const hp = Math.max(1, applyHpChange(difficulty, startingHp, opening.hpChange));
+  const { inventory, added, removed } = applyInventoryChanges(campaign.startingInventory, opening.inventoryAdd, []);
+  const openingParty = game.party && storeSheet(game.party, { character, hp, inventory });
+  // The win conditions are the run's victory goals
+  const goals = campaign.winConditions.map(text => ({ ending: "victory" as const, text }));
+  const facts = mergeFacts(game.memory.facts, { ...opening, goals: [...opening.goals, ...goals] });
+  const tree = addNode(game.tree, {
+    id: openingId,
+    parentId: null,
+    turn: {
+      text: opening.narrative,
+      imagePrompt: imagePromptFor(game, opening),
+      choices: opening.choices,
+      hpChange: hp - startingHp,
+      inventoryAdded: added,
+      inventoryRemoved: removed,
+    },
+    hp,
+    inventory,
+    facts,
+    beatIndex: advanceBeat(campaign, 0, opening.beatReached),
+    ...(openingParty && { party: openingParty }),
+  });
+  return newRun(state, { ...game, hp, inventory, tree, memory: { ...game.memory, facts }, party: openingParty }, "PLAYING");
+};
+
+const choose = (state: EngineState, { choice, dice }: Extract<GameEvent, { type: "choose" }>): EngineState => {
+  const { game } = state;
+  const parentId = game.tree.currentId;
+  if (state.phase !== "PLAYING" || state.pending || !parentId) return state;
+
+  // A path already played is revisited as it was, text and illustration included
+  const explored = findExploredChild(game.tree, parentId, choice);
+  if (explored) return goTo(state, explored.id);
+
+  // The game, not the model, decides whether a risky choice succeeds
+  const checkResult = choice.check
+    ? rollSkillCheck(effectiveAttributes(game.character.attributes, game.inventory), choice.check, () => dice)
+    : undefined;
+  return requestChoice(state, parentId, choice, checkResult);
+};
+
+// Asks for the turn that follows a choice whose check, if any, is already rolled
+const requestChoice = (state: EngineState, parentId: string, choice: Choice, checkResult: SkillCheckResult | undefined): EngineState => {
+  const { game } = state;
+  // Remember what was picked on the turn being left behind, and by whom
+  const actor = game.party && game.character.name;
+  const tree = updateTurn(game.tree, parentId, { chosenChoice: choice, checkResult, ...(actor && { chosenBy: actor }) });
+  const itemUse = resolveItemAction(game, choice);
+  // The story engine sees the party with the item action applied, and learns who plays next
+  const party = game.party && storeSheet(game.party, { character: game.character, hp: itemUse.hp, inventory: itemUse.inventory });
+  const history = activeHistory(tree);
+  return request({ ...state, game: { ...game, tree } }, {
+    parentId,
+    choice,
+    checkResult,
+    hp: itemUse.hp,
+    inventory: itemUse.inventory,
+    itemRemoved: itemUse.removed,
+    depth: history.length,
+    context: buildStoryContext(game.memory, history),
+    beatIndex: tree.nodes[parentId].beatIndex ?? 0,
+    ...(party && { party: partyBrief(party, nextActive(party)) }),
+  });
+};
+
+// A run saved while a request was on the way picks it up again. On permadeath runs the choice is asked for
+// again with the same roll, so reloading can't buy another throw of the dice.
+const resumeRequest = (state: EngineState): EngineState => {
+  const { game } = state;
+  const currentId = game.tree.currentId;
+  const current = currentId ? game.tree.nodes[currentId].turn : undefined;
+  if (state.phase !== "PLAYING" || !currentId || !current) return state;
+  if (awaitsChoices(game.tree.nodes[currentId])) return requestChoices(state, currentId);
+  if (!current.chosenChoice || !DIFFICULTY_RULES[game.difficulty].permadeath) return state;
+  return requestChoice(state, currentId, current.chosenChoice, current.checkResult);
+};
+
+// Party vote mode: votes are cast one player at a time, and the last one standing to vote settles the turn
+const vote = (state: EngineState, { choice, dice }: Extract<GameEvent, { type: "vote" }>): EngineState => {
+  const { party } = state.game;
+  if (state.phase !== "PLAYING" || state.pending || party?.mode !== "vote") return state;
+  const voter = nextVoter(party, state.votes);
+  if (voter === undefined) return state;
+
+  const votes = [...state.votes, { voter, choice }];
+  const winner = nextVoter(party, votes) === undefined ? tallyVotes(party, votes) : undefined;
+  return winner ? choose({ ...state, votes: [] }, { type: "choose", choice: winner, dice }) : { ...state, votes };
+};
+
+const turnReceived = (state: EngineState, { requestId, nodeId, response }: Extract<GameEvent, { type: "turnReceived" }>): EngineState => {
+  const { game, pending } = state;
+  if (!pending || pending.requestId !== requestId) return state;
+
+  // The difficulty caps damage and healing, and decides which deaths stand
+  let hp = applyHpChange(game.difficulty, pending.hp, response.hpChange);
+  let ending = resolveEnding(game.difficulty, hp, response.ending);
+  // A campaign can't be won before its last beat
+  const beatIndex = game.campaign && advanceBeat(game.campaign, pending.beatIndex, response.beatReached);
+  if (game.campaign && beatIndex !== undefined) ending = resolveCampaignEnding(game.campaign, beatIndex, ending);
+  // In a party a death only takes out the player who acted; the run goes on while anyone is standing
+  const { party } = game;
+  if (party && ending === "death") {
+    hp = 0;
+    if (party.members.some((member, idx) => idx !== party.active && isStanding(member))) ending = null;
+  }
+  // A party member's death keeps its segment and only the next player's choices are asked for
+  const fellInParty = !!party && !ending && hp === 0;
+  if (!ending && response.choices.length === 0 && !fellInParty) {
+    // An ending the rules overruled (a death, an early victory), with no way forward written: ask again
+    return gameReducer(state, {
+      type: "turnFailed",
+      requestId,
+      error: new StoryEngineError("MALFORMED_OUTPUT", "The story ended the run against the rules"),
+    });
+  }
+  const { inventory, added, removed } = applyInventoryChanges(pending.inventory, response.inventoryAdd, response.inventoryRemove);
+  const parent = pending.parentId ? game.tree.nodes[pending.parentId] : undefined;
+  const facts = mergeFacts(parent?.facts ?? createStoryMemory().facts, response);
+  // After an action the new turn belongs to the next player, whose sheet becomes the mirrored one.
+  // The opening is addressed to the first player.
+  const actorSheet = { character: game.character, hp, inventory };
+  const nextParty = party && (pending.choice ? passTurn(party, actorSheet) : storeSheet(party, actorSheet));
+  const sheet = nextParty ? nextParty.members[nextParty.active] : actorSheet;
+
+  const node: StoryNode = {
+    id: nodeId,
+    parentId: pending.parentId,
+    choice: pending.choice ?? undefined,
+    checkResult: pending.checkResult,
+    ...(party && pending.choice && { actor: game.character.name }),
+    turn: {
+      text: response.narrative,
+      imagePrompt: imagePromptFor(game, response),
+      choices: ending ? [] : response.choices,
+      // What actually changed since the previous turn, item action included, not what the model asked for
+      hpChange: hp - game.hp,
+      inventoryAdded: added,
+      inventoryRemoved: [...pending.itemRemoved, ...removed],
+      ...(ending && { ending }),
+    },
+    hp: sheet.hp,
+    inventory: sheet.inventory,
+    facts,
+    ...(beatIndex !== undefined && { beatIndex }),
+    ...(nextParty && { party: nextParty }),
+  };
+
+  const next = withPhase({
+    ...state,
+    game: {
+      ...game,
+      ...sheet,
+      tree: addNode(game.tree, node),
+      memory: { ...game.memory, facts },
+      ...(nextParty && { party: nextParty }),
+    },
+    pending: null,
+    streamingText: null,
+  }, ending ? "GAMEOVER" : "PLAYING");
+  return node.turn.choices.length === 0 && !ending ? requestChoices(next, nodeId) : next;
+};
+
+// A party turn whose actor fell, left without choices if asking for them failed or was interrupted
+const awaitsChoices = (node: StoryNode): boolean => !!node.party && node.turn.choices.length === 0 && !node.turn.ending;
+
+// Asks for the choices of a turn that has none (its actor fell and the party plays on), for the player who plays next
+const requestChoices = (state: EngineState, nodeId: string): EngineState => {
+  const { game } = state;
+  const node = game.tree.nodes[nodeId];
+  return request(state, {
+    parentId: node.parentId,
+    choice: node.choice ?? null,
+    checkResult: node.checkResult,
+    hp: node.hp,
+    inventory: node.inventory,
+    itemRemoved: [],
+    depth: pathTo(game.tree, nodeId).length - 1,
+    context: buildStoryContext(game.memory, activeHistory(game.tree)),
+    beatIndex: node.beatIndex ?? 0,
+    ...(node.party && { party: partyBrief(node.party, node.party.active) }),
+    choicesFor: nodeId,
+  });
+};
+
+const choicesReceived = (state: EngineState, { requestId, choices }: Extract<GameEvent, { type: "choicesReceived" }>): EngineState => {
+  const { game, pending } = state;
+  if (!pending?.choicesFor || pending.requestId !== requestId) return state;
+  return { ...state, game: { ...game, tree: updateTurn(game.tree, pending.choicesFor, { choices }) }, pending: null, streamingText: null };
+};
+
+// Rewinds (or fast-forwards) to an explored turn, with the HP, inventory and facts it had
+const goTo = (state: EngineState, nodeId: string): EngineState => {
+  const { game } = state;
+  const node = game.tree.nodes[nodeId];
+  if (!node || nodeId === game.tree.currentId || DIFFICULTY_RULES[game.difficulty].permadeath) return state;
+
+  // The summary only survives if every turn it covers is also on the new path
+  const keepsSummary = game.memory.summarizedTurns <= sharedDepth(game.tree, game.tree.currentId, nodeId);
+  const next = withPhase({
+    ...state,
+    game: {
+      ...game,
+      tree: moveTo(game.tree, nodeId),
+      hp: node.hp,
+      inventory: node.inventory,
+      ...(node.party && { party: node.party, character: node.party.members[node.party.active].character }),
+      memory: keepsSummary ? { ...game.memory, facts: node.facts } : { ...createStoryMemory(), facts: node.facts },
+    },
+    pending: null,
+    failed: null,
+    streamingText: null,
+    runId: state.runId + 1,
+    votes: [],
+  }, node.turn.choices.length > 0 || awaitsChoices(node) ? "PLAYING" : "GAMEOVER");
+  return awaitsChoices(node) ? requestChoices(next, nodeId) : next;
+};
+
+export const gameReducer = (state: EngineState, event: GameEvent): EngineState => {
+  switch (event.type) {
+    case "start":
+      return start(state, event);
+    case "load":
+      return resumeRequest(newRun(state, event.state, event.state.isGameOver ? "GAMEOVER" : "PLAYING"));
+    case "choose":
+      return choose(state, event);
+    case "vote":
+      return vote(state, event);
+    case "narrative":
+      return state.pending?.requestId === event.requestId ? { ...state, streamingText: event.text.trimStart() } : state;
+    case "turnReceived":
+      return turnReceived(state, event);
+    case "choicesReceived":
+      return choicesReceived(state, event);
+    case "turnFailed":
+      if (state.pending?.requestId !== event.requestId) return state;
+      return { ...state, pending: null, failed: { turn: state.pending, error: event.error }, streamingText: null };
+    case "retry":
+      return state.failed && !state.pending ? request(state, state.failed.turn) : state;
+    case "goTo":
+      return goTo(state, event.nodeId);
+    case "imageRequested":
+      return { ...state, drawing: [...state.drawing.filter(id => id !== event.nodeId), event.nodeId] };
+    case "imageReceived":
+      return {
+        ...state,
+        game: event.url ? { ...state.game, tree: updateTurn(state.game.tree, event.nodeId, { imageUrl: event.url }) } : state.game,
+        drawing: state.drawing.filter(id => id !== event.nodeId),
+      };
+    case "imagesCancelled":
+      return { ...state, drawing: [] };
+    case "summaryReceived":
+      if (event.runId !== state.runId) return state;
+      return { ...state, game: { ...state.game, memory: { ...state.game.memory, summary: event.summary, summarizedTurns: event.summarizedTurns } } };
+    case "abandon":
+      // The last turn keeps its choices, so a finished run with choices left was abandoned
+      if (state.phase !== "PLAYING" || !state.game.tree.currentId) return state;
+      return withPhase({ ...state, pending: null, failed: null, streamingText: null }, "GAMEOVER");
+    case "reset":
+      return { ...createEngineState(), runId: state.runId + 1, nextRequestId: state.nextRequestId };
+  }
+};
@@ -0,0 +1,30 @@
+import { createContext, useContext } from "react";
+import { Language } from "../types";
+import { es, Messages } from "./locales/es";
+import { en } from "./locales/en";
+
+export type { Messages };
+
+export const LANGUAGES: Language[] = ["es", "en"];
+
+export const MESSAGES: Record<Language, Messages> = { es, en };
+
+const STORAGE_KEY = "ai-chronicles-language";
+
+// Last language picked, otherwise the browser's, otherwise Spanish
+export const detectLanguage = (): Language => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (LANGUAGES.includes(stored as Language)) return stored as Language;
+  const browser = navigator.language.slice(0, 2);
+  return LANGUAGES.includes(browser as Language) ? (browser as Language) : "es";
+};
+
+export const storeLanguage = (language: Language) => {
+  localStorage.setItem(STORAGE_KEY, language);
+  document.documentElement.lang = language;
+};
+
+// Catalog of the current language, provided by App
+export const I18nContext = createContext<Messages>(es);
+
+export const useI18n = () => useContext(I18nContext);
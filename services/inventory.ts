@@ -0,0 +1,76 @@
+import { Attributes, Item, ItemCategory, ItemDelta, ItemRemoval } from "../types";
+import { ATTRIBUTES } from "./character";
+
+export const ITEM_CATEGORIES: ItemCategory[] = ["weapon", "consumable", "key", "quest"];
+
+export const MAX_SKILL_BONUS = 2;
+
+// "Poción de Curación" -> "pocion-de-curacion"
+export const slugify = (name: string): string =>
+  name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "objeto";
+
+// Finds an owned item by id, or by name ignoring case
+export const findItem = (inventory: Item[], idOrName: string): Item | undefined => {
+  const key = idOrName.trim().toLowerCase();
+  return inventory.find(item => item.id === idOrName.trim()) ?? inventory.find(item => item.name.toLowerCase() === key);
+};
+
+export const countItems = (inventory: Item[]) => inventory.reduce((sum, item) => sum + item.quantity, 0);
+
+export interface InventoryChange {
+  inventory: Item[];
+  added: ItemDelta[];
+  removed: ItemDelta[];
+}
+
+// Removals first, then additions. Adding an owned id stacks onto it.
+export const applyInventoryChanges = (inventory: Item[], add: Item[], remove: ItemRemoval[]): InventoryChange => {
+  const added: ItemDelta[] = [];
+  const removed: ItemDelta[] = [];
+
+  let next = inventory.map(item => ({ ...item }));
+
+  remove.forEach(({ id, quantity }) => {
+    const owned = next.find(item => item.id === id);
+    if (!owned) return;
+    const taken = Math.min(quantity, owned.quantity);
+    owned.quantity -= taken;
+    removed.push({ id, name: owned.name, quantity: taken });
+  });
+  next = next.filter(item => item.quantity > 0);
+
+  add.forEach(item => {
+    const owned = next.find(existing => existing.id === item.id);
+    if (owned) {
+      owned.quantity += item.quantity;
+    } else {
+      next.push({ ...item });
+    }
+    added.push({ id: item.id, name: item.name, quantity: item.quantity });
+  });
+
+  return { inventory: next, added, removed };
+};
+
+// Attributes plus the best carried bonus for each one. Bonuses don't stack.
+export const effectiveAttributes = (attributes: Attributes, inventory: Item[]): Attributes =>
+  Object.fromEntries(ATTRIBUTES.map(attr => {
+    const bonus = Math.max(0, ...inventory
+      .filter(item => item.effects?.skillBonus?.skill === attr)
+      .map(item => item.effects!.skillBonus!.amount));
+    return [attr, attributes[attr] + bonus];
+  })) as Attributes;
+
+// Items from saves that only stored names
+export const itemFromName = (name: string): Item => ({
+  id: slugify(name),
+  name,
+  description: "",
+  category: "quest",
+  quantity: 1,
+});
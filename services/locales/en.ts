@@ -0,0 +1,265 @@
+import { Messages } from "./es";
+
+export const en: Messages = {
+  languageName: "English",
+
+  start: {
+    tagline: "Choose your destiny. An endless story written just for you.",
+    language: "Language",
+    artStyle: "Illustration style",
+    noImages: "No illustrations",
+    difficulty: "Difficulty",
+    chooseTheme: "Choose a theme",
+    customTheme: "Or write your own",
+    customThemePlaceholder: "E.g. A samurai in space...",
+    createCharacter: "Create Character",
+    continueRun: (theme: string) => `Continue (${theme})`,
+    savedGames: "Saved games",
+    campaign: "Campaign",
+    loadCampaign: "Load campaign (JSON)",
+    removeCampaign: "Remove campaign",
+    campaignBeats: (count: number) => `${count} plot beats`,
+    campaignInvalid: "This campaign file cannot be played:",
+  },
+
+  themes: [
+    "Dark Fantasy", "Cyberpunk 2077", "Zombie Apocalypse", "Victorian Mystery",
+    "Space Pirates", "Feudal Samurai", "Lovecraftian Horror", "Weird West",
+    "90s Hackers", "Greek Mythology", "Gritty Superheroes", "Deep Sea Exploration",
+    "Steampunk", "Desert Island Survival", "AI Wars", "Modern Vampires",
+  ],
+
+  attributes: {
+    strength: "Strength",
+    agility: "Agility",
+    wits: "Wits",
+  },
+
+  artStyles: {
+    painterly: "Oil painting",
+    comic: "Comic",
+    watercolor: "Watercolor",
+    pixel: "Pixel art",
+    noir: "Film noir",
+  },
+
+  difficulties: {
+    story: { name: "Story", description: "Just enjoy the tale: light damage, generous healing and the hero never dies." },
+    normal: { name: "Normal", description: "Damage per turn is capped and you only die when you run out of HP." },
+    hardcore: { name: "Hardcore", description: "Less HP, harder hits, no healing except items, and sudden deaths. No saving, no rewinding." },
+  },
+
+  party: {
+    players: "Players",
+    solo: "Solo",
+    modes: {
+      rotation: { name: "Take turns", description: "Each player decides on their turn, with their own character, HP and backpack." },
+      vote: { name: "Vote", description: "Everyone votes on each decision and the majority wins; the player whose turn it is breaks ties." },
+    },
+    player: (number: number, count: number) => `Player ${number} of ${count}`,
+    nextPlayer: "Next player",
+    nameTaken: "Another player already has that name",
+    members: "Party",
+    turnOf: (name: string) => `${name}'s turn`,
+    voteOf: (name: string) => `${name} votes`,
+    votes: (count: number) => (count === 1 ? "1 vote" : `${count} votes`),
+    voted: "Has voted",
+    fallen: "Fallen",
+  },
+
+  session: {
+    title: "Online session",
+    host: "Open a room",
+    hostHint: "Other players join from their browser with the code; they see the same story and can choose. The first choice to arrive counts. In party games they only watch.",
+    hostName: "Host",
+    code: "Room code",
+    players: "Connected players",
+    you: "you",
+    away: "Reconnecting",
+    close: "Close room",
+    join: "Join a room",
+    joinButton: "Join",
+    codePlaceholder: "Code",
+    namePlaceholder: "Your name",
+    leave: "Leave room",
+    connecting: "Connecting…",
+    reconnecting: "Connection lost, reconnecting…",
+    waitingHost: "Waiting for the host to start the story…",
+    sent: "Choice sent, waiting for the host…",
+    partyTurns: "This is a party game: the players at the host's screen make the choices.",
+    closed: {
+      hostLeft: "The host closed the room.",
+      expired: "The room closed: the host did not reconnect.",
+      idle: "The room closed after a while without activity.",
+    },
+    lost: "Could not get back into the room.",
+    errors: {
+      NO_ROOM: "There is no room with that code.",
+      ROOM_FULL: "The room is full.",
+      TOO_MANY_ROOMS: "Too many rooms are open. Close one or try again later.",
+      BAD_NAME: "Enter a name of up to 40 characters.",
+      BAD_TOKEN: "Your seat in the room is gone.",
+      HOST_AWAY: "The host is reconnecting, try again in a moment.",
+      BAD_MESSAGE: "The room did not understand the last message.",
+    },
+  },
+
+  character: {
+    changeTheme: "Change theme",
+    theme: "Theme",
+    name: "Name",
+    namePlaceholder: "What's your name?",
+    archetype: "Archetype",
+    findingArchetypes: "Looking for heroes for this world...",
+    attributes: "Attributes",
+    freePoints: (points: number) => `Free points: ${points}`,
+    generatingWorld: "Generating World...",
+    startAdventure: "Start Adventure",
+  },
+
+  game: {
+    backpack: (count: number) => `Backpack (${count})`,
+    chronicle: (count: number) => `Chronicle (${count})`,
+    map: "Path map",
+    permadeath: "Permadeath: no saving and no rewinding",
+    save: "Save game",
+    reset: "Restart",
+    writing: "The story is being written...",
+    drawing: "Drawing the scene...",
+    regenerateImage: "Redraw the scene",
+    imagesOn: "Turn illustrations on",
+    imagesOff: "Turn illustrations off",
+    sceneAlt: "Scene illustration",
+    whatNext: "What will you do?",
+    difficulty: (difficulty: number) => `Difficulty ${difficulty}`,
+    success: "Success",
+    failure: "Failure",
+    customAction: "Something else…",
+    tryAction: "Try this action",
+    goals: "Goals",
+    abandon: "Abandon adventure",
+    confirmAbandon: "Abandon this adventure? You can go back to an earlier turn from the map.",
+  },
+
+  narration: {
+    on: "Read the story aloud",
+    off: "Stop reading aloud",
+    pause: "Pause reading",
+    resume: "Resume reading",
+    skip: "Skip reading",
+    rate: "Reading speed",
+    voice: "Narrator voice",
+    noVoice: "No voices for this language",
+    autoAdvance: "Auto-advance: read the choices out and play the first one if nobody picks",
+    choices: (choices: string[]) => ["What do you do?", ...choices.map((choice, idx) => `Option ${idx + 1}: ${choice}`)].join("\n"),
+    autoPick: (seconds: number) => `If nobody chooses, option 1 plays in ${seconds} seconds.`,
+  },
+
+  a11y: {
+    close: "Close",
+    hp: (hp: number) => `HP ${hp}%`,
+    hpChanged: (change: number, hp: number) => `You ${change > 0 ? "recover" : "lose"} ${Math.abs(change)} HP. HP: ${hp}%.`,
+    reducedMotion: "Reduce motion",
+    shortcuts: "Keys: 1–4 choose · I backpack · P people · S skip text",
+  },
+
+  journal: {
+    title: "People",
+    button: (count: number) => `People (${count})`,
+    empty: "You haven't dealt with anyone yet.",
+    stances: { ally: "Ally", neutral: "Neutral", hostile: "Hostile" },
+    trust: "Trust",
+    factions: "Factions",
+    reputation: "Reputation",
+  },
+
+  inventory: {
+    title: "Inventory",
+    empty: "Your backpack is empty.",
+    use: "Use",
+    inspect: "Inspect",
+    drop: "Drop",
+    total: (count: number) => `${count} items`,
+    heal: (amount: number) => `Heals ${amount}`,
+    categories: {
+      weapon: "Weapon",
+      consumable: "Consumable",
+      key: "Key",
+      quest: "Quest",
+    },
+  },
+
+  chronicle: {
+    title: "Chronicle",
+    turn: (turn: number) => `Turn ${turn}`,
+    now: "Now",
+    sceneOfTurn: (turn: number) => `Scene of turn ${turn}`,
+    yourAction: "Action written by you",
+  },
+
+  storyMap: {
+    title: "Path map",
+    opening: "Opening",
+    current: "You are here",
+    ending: "Ending",
+    rewind: "Go back here",
+  },
+
+  storybook: {
+    export: "Save the story as",
+    finalHp: "Final HP",
+  },
+
+  saves: {
+    autosave: "Autosave",
+    empty: "No saved games.",
+    turn: (turn: number) => `Turn ${turn}`,
+    load: "Load",
+    delete: "Delete",
+    confirmDelete: "Delete this saved game?",
+    namePrompt: "Save name",
+    loadFailed: "The game could not be loaded.",
+    saveFailed: "The game could not be saved.",
+    blocked: "Another tab of the game is open with an older version. Close it and try again.",
+  },
+
+  errors: {
+    RATE_LIMIT: "The narrator is swamped with requests. Wait a few seconds before retrying.",
+    SAFETY_BLOCK: "The narrator refused to continue because of its content filters. Try another action.",
+    NETWORK: "The connection to the narrator was lost. Check your network.",
+    MALFORMED_OUTPUT: "The narrator stumbled and its answer made no sense.",
+    ABORTED: "The turn was cancelled.",
+    UNKNOWN: "Something went wrong while writing the next turn.",
+    notAdvanced: "The story has not moved on.",
+    retry: "Retry turn",
+  },
+
+  endings: {
+    death: {
+      title: "You Have Fallen",
+      epilogue: "Your story has reached a tragic end. But in the multiverse, every ending is a new beginning.",
+    },
+    victory: {
+      title: "Victory",
+      epilogue: "You made it. This story will be told in taverns and archives for generations.",
+    },
+    escape: {
+      title: "You Escaped",
+      epilogue: "You got out alive. Not everything was settled, but you are still breathing to tell it.",
+    },
+    abandoned: {
+      title: "Adventure Abandoned",
+      epilogue: "You left the story half told. The world will keep waiting for someone to finish it.",
+    },
+  },
+
+  gameOver: {
+    turnsSurvived: "Turns",
+    damageTaken: "Damage taken",
+    itemsCollected: "Items collected",
+    finalItems: "Final Items",
+    none: "None",
+    restart: "Reincarnate",
+    rewind: "Go back to an earlier turn",
+  },
+};
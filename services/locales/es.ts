@@ -0,0 +1,266 @@
+// Spanish catalog. It defines the shape every other catalog must follow.
+export const es = {
+  languageName: "Español",
+
+  start: {
+    tagline: "Elige tu destino. Una historia infinita generada solo para ti.",
+    language: "Idioma",
+    artStyle: "Estilo de las ilustraciones",
+    noImages: "Sin ilustraciones",
+    difficulty: "Dificultad",
+    chooseTheme: "Elige un tema",
+    customTheme: "O escribe el tuyo",
+    customThemePlaceholder: "Ej: Un samurai en el espacio...",
+    createCharacter: "Crear Personaje",
+    continueRun: (theme: string) => `Continuar (${theme})`,
+    savedGames: "Partidas guardadas",
+    campaign: "Campaña",
+    loadCampaign: "Cargar campaña (JSON)",
+    removeCampaign: "Quitar campaña",
+    campaignBeats: (count: number) => `${count} momentos de trama`,
+    campaignInvalid: "Este archivo de campaña no se puede jugar:",
+  },
+
+  themes: [
+    "Fantasía Oscura", "Cyberpunk 2077", "Apocalipsis Zombie", "Misterio Victoriano",
+    "Piratas del Espacio", "Samurai Feudal", "Terror Lovecraftiano", "Western Mágico",
+    "Hackers de los 90", "Mitología Griega", "Superhéroes Realistas", "Exploración Submarina",
+    "Steampunk", "Supervivencia en Isla Desierta", "Guerra de IAs", "Vampiros Modernos",
+  ],
+
+  attributes: {
+    strength: "Fuerza",
+    agility: "Agilidad",
+    wits: "Ingenio",
+  },
+
+  artStyles: {
+    painterly: "Óleo",
+    comic: "Cómic",
+    watercolor: "Acuarela",
+    pixel: "Pixel art",
+    noir: "Cine negro",
+  },
+
+  difficulties: {
+    story: { name: "Narrativo", description: "Para disfrutar de la historia: poco daño, curas generosas y el personaje nunca muere." },
+    normal: { name: "Normal", description: "El daño por turno está limitado y solo se muere al quedarse sin vida." },
+    hardcore: { name: "Hardcore", description: "Menos vida, golpes más duros, ninguna cura fuera de los objetos y muertes súbitas. Sin guardar ni rebobinar." },
+  },
+
+  party: {
+    players: "Jugadores",
+    solo: "Solo",
+    modes: {
+      rotation: { name: "Por turnos", description: "Cada jugador decide en su turno, con su personaje, su vida y su mochila." },
+      vote: { name: "Votación", description: "Todos votan cada decisión y gana la mayoría; en un empate decide el jugador de turno." },
+    },
+    player: (number: number, count: number) => `Jugador ${number} de ${count}`,
+    nextPlayer: "Siguiente jugador",
+    nameTaken: "Otro jugador ya tiene ese nombre",
+    members: "Grupo",
+    turnOf: (name: string) => `Turno de ${name}`,
+    voteOf: (name: string) => `Vota ${name}`,
+    votes: (count: number) => (count === 1 ? "1 voto" : `${count} votos`),
+    voted: "Ha votado",
+    fallen: "Caído",
+  },
+
+  session: {
+    title: "Partida en red",
+    host: "Abrir sala",
+    hostHint: "Otros jugadores se unen desde su navegador con el código; ven la misma historia y pueden elegir. Vale la primera elección que llega. En las partidas en grupo solo miran.",
+    hostName: "Anfitrión",
+    code: "Código de sala",
+    players: "Jugadores conectados",
+    you: "tú",
+    away: "Reconectando",
+    close: "Cerrar sala",
+    join: "Unirse a una sala",
+    joinButton: "Unirse",
+    codePlaceholder: "Código",
+    namePlaceholder: "Tu nombre",
+    leave: "Salir de la sala",
+    connecting: "Conectando…",
+    reconnecting: "Conexión perdida, reconectando…",
+    waitingHost: "Esperando a que el anfitrión empiece la historia…",
+    sent: "Elección enviada, esperando al anfitrión…",
+    partyTurns: "Es una partida en grupo: eligen los jugadores que están con el anfitrión.",
+    closed: {
+      hostLeft: "El anfitrión cerró la sala.",
+      expired: "La sala se cerró: el anfitrión no volvió a conectarse.",
+      idle: "La sala se cerró tras un rato sin actividad.",
+    },
+    lost: "No se pudo recuperar la conexión con la sala.",
+    errors: {
+      NO_ROOM: "No hay ninguna sala con ese código.",
+      ROOM_FULL: "La sala está llena.",
+      TOO_MANY_ROOMS: "Ya hay demasiadas salas abiertas. Cierra alguna o prueba más tarde.",
+      BAD_NAME: "Escribe un nombre de hasta 40 caracteres.",
+      BAD_TOKEN: "Tu sitio en la sala ya no existe.",
+      HOST_AWAY: "El anfitrión se está reconectando, prueba de nuevo en un momento.",
+      BAD_MESSAGE: "La sala no entendió el último mensaje.",
+    },
+  },
+
+  character: {
+    changeTheme: "Cambiar tema",
+    theme: "Tema",
+    name: "Nombre",
+    namePlaceholder: "¿Cómo te llamas?",
+    archetype: "Arquetipo",
+    findingArchetypes: "Buscando héroes para este mundo...",
+    attributes: "Atributos",
+    freePoints: (points: number) => `Puntos libres: ${points}`,
+    generatingWorld: "Generando Mundo...",
+    startAdventure: "Comenzar Aventura",
+  },
+
+  game: {
+    backpack: (count: number) => `Mochila (${count})`,
+    chronicle: (count: number) => `Crónica (${count})`,
+    map: "Mapa de caminos",
+    permadeath: "Muerte permanente: no se puede guardar ni rebobinar",
+    save: "Guardar partida",
+    reset: "Reiniciar",
+    writing: "La historia se está escribiendo...",
+    drawing: "Dibujando escena...",
+    regenerateImage: "Volver a dibujar la escena",
+    imagesOn: "Activar ilustraciones",
+    imagesOff: "Desactivar ilustraciones",
+    sceneAlt: "Ilustración de la escena",
+    whatNext: "¿Qué harás?",
+    difficulty: (difficulty: number) => `Dificultad ${difficulty}`,
+    success: "Éxito",
+    failure: "Fracaso",
+    customAction: "Otra acción…",
+    tryAction: "Intentar esta acción",
+    goals: "Objetivos",
+    abandon: "Abandonar aventura",
+    confirmAbandon: "¿Abandonar esta aventura? Podrás volver a un turno anterior desde el mapa.",
+  },
+
+  narration: {
+    on: "Leer la historia en voz alta",
+    off: "Dejar de leer en voz alta",
+    pause: "Pausar la lectura",
+    resume: "Seguir leyendo",
+    skip: "Saltar la lectura",
+    rate: "Velocidad de lectura",
+    voice: "Voz del narrador",
+    noVoice: "No hay voces en este idioma",
+    autoAdvance: "Avance automático: lee las opciones y, si nadie elige, juega la primera",
+    choices: (choices: string[]) => ["¿Qué haces?", ...choices.map((choice, idx) => `Opción ${idx + 1}: ${choice}`)].join("\n"),
+    autoPick: (seconds: number) => `Si nadie elige, la opción 1 se juega en ${seconds} segundos.`,
+  },
+
+  a11y: {
+    close: "Cerrar",
+    hp: (hp: number) => `Vida ${hp}%`,
+    hpChanged: (change: number, hp: number) => `${change > 0 ? "Recuperas" : "Pierdes"} ${Math.abs(change)} de vida. Vida: ${hp}%.`,
+    reducedMotion: "Reducir animaciones",
+    shortcuts: "Teclas: 1–4 elegir · I mochila · P personajes · S saltar texto",
+  },
+
+  journal: {
+    title: "Personajes",
+    button: (count: number) => `Personajes (${count})`,
+    empty: "Todavía no has tratado con nadie.",
+    stances: { ally: "Aliado", neutral: "Neutral", hostile: "Hostil" },
+    trust: "Confianza",
+    factions: "Facciones",
+    reputation: "Reputación",
+  },
+
+  inventory: {
+    title: "Inventario",
+    empty: "Tu mochila está vacía.",
+    use: "Usar",
+    inspect: "Examinar",
+    drop: "Soltar",
+    total: (count: number) => `${count} objetos`,
+    heal: (amount: number) => `Cura ${amount}`,
+    categories: {
+      weapon: "Arma",
+      consumable: "Consumible",
+      key: "Llave",
+      quest: "Misión",
+    },
+  },
+
+  chronicle: {
+    title: "Crónica",
+    turn: (turn: number) => `Turno ${turn}`,
+    now: "Ahora",
+    sceneOfTurn: (turn: number) => `Escena del turno ${turn}`,
+    yourAction: "Acción escrita por ti",
+  },
+
+  storyMap: {
+    title: "Mapa de caminos",
+    opening: "Inicio",
+    current: "Estás aquí",
+    ending: "Final",
+    rewind: "Volver aquí",
+  },
+
+  storybook: {
+    export: "Guardar la historia como",
+    finalHp: "Vida final",
+  },
+
+  saves: {
+    autosave: "Autoguardado",
+    empty: "No hay partidas guardadas.",
+    turn: (turn: number) => `Turno ${turn}`,
+    load: "Cargar",
+    delete: "Borrar",
+    confirmDelete: "¿Borrar esta partida guardada?",
+    namePrompt: "Nombre de la partida",
+    loadFailed: "No se pudo cargar la partida.",
+    saveFailed: "No se pudo guardar la partida.",
+    blocked: "Hay otra pestaña del juego abierta con una versión anterior. Ciérrala y vuelve a intentarlo.",
+  },
+
+  errors: {
+    RATE_LIMIT: "El narrador está saturado de peticiones. Espera unos segundos antes de reintentar.",
+    SAFETY_BLOCK: "El narrador se ha negado a continuar por sus filtros de contenido. Prueba con otra acción.",
+    NETWORK: "Se ha perdido la conexión con el narrador. Comprueba tu red.",
+    MALFORMED_OUTPUT: "El narrador se ha trabado y su respuesta no tenía sentido.",
+    ABORTED: "El turno se ha cancelado.",
+    UNKNOWN: "Algo ha fallado al escribir el siguiente turno.",
+    notAdvanced: "La historia no ha avanzado.",
+    retry: "Reintentar turno",
+  },
+
+  endings: {
+    death: {
+      title: "Has Caído",
+      epilogue: "Tu historia ha llegado a un final trágico. Pero en el multiverso, cada final es un nuevo comienzo.",
+    },
+    victory: {
+      title: "Victoria",
+      epilogue: "Lo has conseguido. Esta historia se contará en tabernas y archivos durante generaciones.",
+    },
+    escape: {
+      title: "Has Escapado",
+      epilogue: "Has salido con vida. No todo quedó resuelto, pero sigues respirando para contarlo.",
+    },
+    abandoned: {
+      title: "Aventura Abandonada",
+      epilogue: "Dejaste la historia a medias. El mundo seguirá esperando a que alguien la termine.",
+    },
+  },
+
+  gameOver: {
+    turnsSurvived: "Turnos",
+    damageTaken: "Daño recibido",
+    itemsCollected: "Objetos conseguidos",
+    finalItems: "Objetos Finales",
+    none: "Ninguno",
+    restart: "Reencarnar",
+    rewind: "Volver a un turno anterior",
+  },
+};
+
+export type Messages = typeof es;
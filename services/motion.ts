@@ -0,0 +1,17 @@
+const MOTION_KEY = "ai-chronicles-reduced-motion";
+
+// The player's choice, otherwise the system setting
+export const loadReducedMotion = (): boolean => {
+  const stored = localStorage.getItem(MOTION_KEY);
+  if (stored) return stored === "on";
+  return window.matchMedia?.("(prefers-reduced-motion: reduce)").matches ?? false;
+};
+
+export const storeReducedMotion = (reduced: boolean) => {
+  localStorage.setItem(MOTION_KEY, reduced ? "on" : "off");
+};
+
+// The stylesheet stops every animation and transition under this class
+export const applyReducedMotion = (reduced: boolean) => {
+  document.documentElement.classList.toggle("reduce-motion", reduced);
+};
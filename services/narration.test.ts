@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createNarrator, splitSentences, spokenChoices } from "./narration";
+
+describe("splitSentences", () => {
+  it("holds back an unfinished sentence until the text is final", () => {
+    const text = "The door creaks. A light";
+    expect(splitSentences(text, 0, false)).toEqual([{ start: 0, end: 17 }]);
+    expect(splitSentences(text, 17, true)).toEqual([{ start: 17, end: text.length }]);
+  });
+});
+
+describe("createNarrator", () => {
+  // A synthesizer that takes every utterance and never says a word
+  const silent = { speak: vi.fn(), cancel: vi.fn(), pause: vi.fn(), resume: vi.fn() };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal("window", { speechSynthesis: silent });
+    vi.stubGlobal("SpeechSynthesisUtterance", class { constructor(readonly text: string) {} });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("shows the text when the synthesizer never fires an event", () => {
+    const onProgress = vi.fn();
+    const narrator = createNarrator({ onProgress, onPausedChange: () => {} });
+    narrator.narrate("The door creaks. A light flickers.", true);
+    expect(onProgress).toHaveBeenLastCalledWith(0);
+
+    vi.advanceTimersByTime(60_000);
+    expect(onProgress).toHaveBeenLastCalledWith(Infinity);
+  });
+
+  it("waits as long as the reading is paused", () => {
+    const onProgress = vi.fn();
+    const narrator = createNarrator({ onProgress, onPausedChange: () => {} });
+    narrator.narrate("The door creaks.", true);
+    narrator.pause();
+
+    vi.advanceTimersByTime(60_000);
+    expect(onProgress).toHaveBeenLastCalledWith(0);
+  });
+
+  it("reads the choices on after the turn without starting over", () => {
+    silent.speak.mockClear();
+    const onProgress = vi.fn();
+    const narrator = createNarrator({ onProgress, onPausedChange: () => {} });
+    narrator.narrate("The door creaks.", true);
+    narrator.narrate("The door creaks.\n\nWhat do you do?\nOption 1: Open it", true);
+
+    expect(onProgress).toHaveBeenCalledTimes(1);
+    expect(silent.speak.mock.calls.map(([utterance]) => utterance.text)).toEqual([
+      "The door creaks.", "\n\nWhat do you do?\n", "Option 1: Open it",
+    ]);
+  });
+});
+
+describe("spokenChoices", () => {
+  it("leaves item actions out", () => {
+    const open = { id: "open", text: "Open it" };
+    expect(spokenChoices([open, { id: "item-use-potion", text: "Use potion", itemAction: { kind: "use", itemId: "potion" } }])).toEqual([open]);
+  });
+});
@@ -0,0 +1,230 @@
+import { Choice, Language } from "../types";
+
+export const NARRATION_RATES = [0.75, 1, 1.25, 1.5];
+
+// Auto-advance waits this long after the choices are read out before playing the first one
+export const AUTO_ADVANCE_MS = 10_000;
+
+export interface NarrationSettings {
+  enabled: boolean;
+  rate: number;
+  voiceURI?: string; // Voice picked by the player, if it speaks the game language
+  autoAdvance: boolean; // Read the choices out too, and play the first one if nobody picks in time
+}
+
+const NARRATION_KEY = "ai-chronicles-narration";
+
+export const isNarrationSupported = (): boolean => typeof window !== "undefined" && "speechSynthesis" in window;
+
+// Narration is off until the player turns it on
+export const loadNarrationSettings = (): NarrationSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(NARRATION_KEY) ?? "null");
+    return {
+      enabled: stored?.enabled === true,
+      rate: NARRATION_RATES.includes(stored?.rate) ? stored.rate : 1,
+      ...(typeof stored?.voiceURI === "string" && { voiceURI: stored.voiceURI }),
+      autoAdvance: stored?.autoAdvance === true,
+    };
+  } catch {
+    return { enabled: false, rate: 1, autoAdvance: false };
+  }
+};
+
+// What auto-advance reads out and picks from: item actions are left to the backpack
+export const spokenChoices = (choices: Choice[]): Choice[] => choices.filter(choice => !choice.itemAction);
+
+export const storeNarrationSettings = (settings: NarrationSettings) => {
+  localStorage.setItem(NARRATION_KEY, JSON.stringify(settings));
+};
+
+// Voices that speak the language, whatever the region ("es-ES", "es-MX"...)
+export const voicesFor = (voices: SpeechSynthesisVoice[], language: Language): SpeechSynthesisVoice[] =>
+  voices.filter(voice => voice.lang.toLowerCase().split(/[-_]/)[0] === language);
+
+// The player's voice if it speaks the language, otherwise the system default for it
+export const pickVoice = (voices: SpeechSynthesisVoice[], language: Language, voiceURI?: string): SpeechSynthesisVoice | undefined => {
+  const candidates = voicesFor(voices, language);
+  return candidates.find(voice => voice.voiceURI === voiceURI) ?? candidates.find(voice => voice.default) ?? candidates[0];
+};
+
+const SENTENCE_END = /[.!?…]+["'»”)]*\s+|\n+/g;
+
+// Sentences from `from` on that can be read already. While the text streams, an unfinished last sentence waits.
+export const splitSentences = (text: string, from: number, isFinal: boolean): { start: number; end: number }[] => {
+  const chunks: { start: number; end: number }[] = [];
+  let start = from;
+  SENTENCE_END.lastIndex = from;
+  for (let match = SENTENCE_END.exec(text); match; match = SENTENCE_END.exec(text)) {
+    const end = match.index + match[0].length;
+    // Blank runs are read with the next sentence
+    if (text.slice(start, end).trim() === "") continue;
+    chunks.push({ start, end });
+    start = end;
+  }
+  if (isFinal && text.slice(start).trim() !== "") chunks.push({ start, end: text.length });
+  return chunks;
+};
+
+// Speech is given this long, plus MS_PER_CHAR for each character still to be read, to show any sign of life.
+// Some browsers accept utterances and never fire a single event; the text must not stay hidden behind them.
+const STALL_GRACE_MS = 3000;
+const MS_PER_CHAR = 100;
+
+export interface Narrator {
+  narrate: (text: string, isFinal: boolean) => void; // Text may grow while it streams; any other text starts over
+  configure: (voice: SpeechSynthesisVoice | undefined, rate: number) => void;
+  pause: () => void;
+  resume: () => void;
+  skip: () => void; // Stops reading the current text, all of it can be shown
+  stop: () => void;
+}
+
+interface NarratorCallbacks {
+  onProgress: (chars: number) => void; // Characters of the text read aloud so far, Infinity once none is held back
+  onPausedChange: (paused: boolean) => void;
+}
+
+// Reads text aloud sentence by sentence, so it can start before the whole turn has streamed in
+export const createNarrator = ({ onProgress, onPausedChange }: NarratorCallbacks): Narrator => {
+  const synth = window.speechSynthesis;
+  let text = "";
+  let isFinal = false;
+  let queued = 0; // Characters handed to the synthesizer
+  let spoken = Infinity; // Characters read aloud
+  let generation = 0; // Bumped on every cancel, so events of cancelled utterances are ignored
+  let hasBoundaries = false; // Some voices never report word boundaries; those reveal a sentence as it starts
+  let voice: SpeechSynthesisVoice | undefined;
+  let rate = 1;
+  let paused = false;
+  let watchdog: ReturnType<typeof setTimeout> | undefined;
+
+  const isFinished = () => spoken === Infinity;
+
+  // (Re)starts the countdown to giving up on a silent synthesizer. Paused reading can't stall.
+  const watch = () => {
+    clearTimeout(watchdog);
+    if (isFinished() || paused || queued <= spoken) return;
+    watchdog = setTimeout(() => {
+      console.warn("Narration stalled, showing the text");
+      cancel();
+      finish();
+    }, STALL_GRACE_MS + ((queued - spoken) * MS_PER_CHAR) / rate);
+  };
+
+  const report = (chars: number) => {
+    if (chars <= spoken) return;
+    spoken = chars;
+    onProgress(chars);
+    watch();
+  };
+
+  const restart = () => {
+    spoken = 0;
+    onProgress(0);
+  };
+
+  const finish = () => report(Infinity);
+
+  const setPaused = (value: boolean) => {
+    if (paused === value) return;
+    paused = value;
+    onPausedChange(value);
+  };
+
+  const cancel = () => {
+    clearTimeout(watchdog);
+    generation++;
+    synth.cancel();
+    // A cancelled synthesizer can stay paused for whatever is spoken next
+    synth.resume();
+    setPaused(false);
+  };
+
+  const isDone = () => isFinal && spoken >= text.trimEnd().length;
+
+  const queue = () => {
+    const current = generation;
+    splitSentences(text, queued, isFinal).forEach(({ start, end }) => {
+      const utterance = new SpeechSynthesisUtterance(text.slice(start, end));
+      utterance.voice = voice ?? null;
+      if (voice) utterance.lang = voice.lang;
+      utterance.rate = rate;
+      utterance.onstart = () => {
+        if (current !== generation) return;
+        watch();
+        if (!hasBoundaries) report(end);
+      };
+      utterance.onboundary = (event) => {
+        if (current !== generation || event.name !== "word") return;
+        hasBoundaries = true;
+        const wordStart = start + event.charIndex;
+        report(wordStart + (event.charLength || text.slice(wordStart).search(/\s|$/)));
+      };
+      utterance.onend = () => {
+        if (current !== generation) return;
+        report(end);
+        if (isDone()) finish();
+      };
+      utterance.onerror = (event) => {
+        if (current !== generation || event.error === "interrupted" || event.error === "canceled") return;
+        // The story must not wait on a voice that failed
+        console.warn("Narration failed", event.error);
+        finish();
+      };
+      synth.speak(utterance);
+      queued = end;
+    });
+    if (isDone()) finish();
+    else watch();
+  };
+
+  return {
+    narrate: (next, final) => {
+      if (next === text && final === isFinal) return;
+      const continues = text !== "" && next.startsWith(text.trimEnd());
+      text = next;
+      isFinal = final;
+      if (!continues) {
+        cancel();
+        queued = 0;
+        restart();
+      }
+      // A skipped text stays skipped while the rest of it streams in
+      if (isFinished()) return;
+      queued = Math.min(queued, text.length);
+      queue();
+    },
+    configure: (nextVoice, nextRate) => {
+      if (nextVoice === voice && nextRate === rate) return;
+      voice = nextVoice;
+      rate = nextRate;
+      // Sentences already queued keep their old voice, so they are queued again from where the reading is
+      if (isFinished() || queued === 0) return;
+      cancel();
+      queued = spoken;
+      queue();
+    },
+    pause: () => {
+      if (isFinished()) return;
+      synth.pause();
+      setPaused(true);
+      watch();
+    },
+    resume: () => {
+      synth.resume();
+      setPaused(false);
+      watch();
+    },
+    skip: () => {
+      cancel();
+      finish();
+    },
+    stop: () => {
+      cancel();
+      text = "";
+      queued = 0;
+      finish();
+    },
+  };
+};
@@ -0,0 +1,34 @@
+const NARRATIVE_KEY = /"narrative"\s*:\s*"/;
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" };
+
+// Reads the "narrative" string out of a JSON response that is still arriving.
+// Stops at the closing quote or at whatever is cut off mid-escape.
+export const extractPartialNarrative = (json: string): string => {
+  const match = NARRATIVE_KEY.exec(json);
+  if (!match) return "";
+
+  let narrative = "";
+  for (let i = match.index + match[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') break;
+    if (char !== "\\") {
+      narrative += char;
+      continue;
+    }
+
+    const next = json[i + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = json.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      narrative += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    // \" \\ and \/ stand for themselves
+    narrative += ESCAPES[next] ?? next;
+    i++;
+  }
+  return narrative;
+};
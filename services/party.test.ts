@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { Character, Choice, Party } from "../types";
+import { createParty, nextActive, nextVoter, tallyVotes } from "./party";
+
+const character = (name: string): Character => ({ name, archetype: "Bardo", attributes: { strength: 2, agility: 2, wits: 2 } });
+
+const party = (mode: Party["mode"] = "vote"): Party => createParty(mode, [character("Ana"), character("Bo"), character("Cai")], 100, []);
+
+const LEFT: Choice = { id: "left", text: "Go left" };
+const RIGHT: Choice = { id: "right", text: "Go right" };
+
+describe("nextVoter", () => {
+  it("asks every standing player once, in seat order", () => {
+    const voting = party();
+    expect(nextVoter(voting, [])).toBe(0);
+    expect(nextVoter(voting, [{ voter: 0, choice: LEFT }])).toBe(1);
+    expect(nextVoter(voting, [{ voter: 0, choice: LEFT }, { voter: 1, choice: LEFT }, { voter: 2, choice: RIGHT }])).toBeUndefined();
+  });
+
+  it("skips the fallen", () => {
+    const voting = party();
+    voting.members[1].hp = 0;
+    expect(nextVoter(voting, [{ voter: 0, choice: LEFT }])).toBe(2);
+  });
+});
+
+describe("tallyVotes", () => {
+  it("plays the most voted choice", () => {
+    expect(tallyVotes(party(), [{ voter: 0, choice: LEFT }, { voter: 1, choice: RIGHT }, { voter: 2, choice: RIGHT }])).toBe(RIGHT);
+  });
+
+  it("breaks a tie with the active player's vote", () => {
+    const voting = { ...party(), active: 1 };
+    expect(tallyVotes(voting, [{ voter: 0, choice: LEFT }, { voter: 1, choice: RIGHT }])).toBe(RIGHT);
+  });
+
+  it("breaks a tie without the active player's vote with the first tied vote", () => {
+    const voting = { ...party(), active: 2 };
+    expect(tallyVotes(voting, [{ voter: 0, choice: LEFT }, { voter: 1, choice: RIGHT }])).toBe(LEFT);
+  });
+
+  it("counts free actions with the same words as one choice", () => {
+    const shout = (id: string): Choice => ({ id, text: " Shout for help", isCustom: true });
+    expect(tallyVotes(party(), [{ voter: 0, choice: LEFT }, { voter: 1, choice: shout("a") }, { voter: 2, choice: shout("b") }])?.text)
+      .toBe(" Shout for help");
+  });
+});
+
+describe("nextActive", () => {
+  it("passes the turn to the next player standing, wrapping around", () => {
+    const rotation = { ...party("rotation"), active: 2 };
+    rotation.members[0].hp = 0;
+    expect(nextActive(rotation)).toBe(1);
+  });
+});
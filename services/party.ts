@@ -0,0 +1,72 @@
+import { Character, Choice, Item, Party, PartyBrief, PartyMember, PartyMode, PartyVote } from "../types";
+
+export const PARTY_MODES: PartyMode[] = ["rotation", "vote"];
+
+export const MIN_PARTY_SIZE = 2;
+export const MAX_PARTY_SIZE = 6;
+
+// Everyone starts with the same HP and kit; the first character plays the first turn
+export const createParty = (mode: PartyMode, characters: Character[], hp: number, inventory: Item[]): Party => ({
+  mode,
+  members: characters.map(character => ({ character, hp, inventory })),
+  active: 0,
+});
+
+export const isStanding = (member: PartyMember): boolean => member.hp > 0;
+
+// Next player still standing after the active one; the active one again if nobody else is
+export const nextActive = (party: Party): number => {
+  const count = party.members.length;
+  for (let step = 1; step < count; step++) {
+    const idx = (party.active + step) % count;
+    if (isStanding(party.members[idx])) return idx;
+  }
+  return party.active;
+};
+
+// Writes the active player's sheet back into the party
+export const storeSheet = (party: Party, sheet: PartyMember): Party => ({
+  ...party,
+  members: party.members.map((member, idx) => (idx === party.active ? sheet : member)),
+});
+
+// Stores the sheet of the player who just acted and hands the turn to the next one standing
+export const passTurn = (party: Party, sheet: PartyMember): Party => {
+  const stored = storeSheet(party, sheet);
+  return { ...stored, active: nextActive(stored) };
+};
+
+// Next player to vote on the current turn; undefined once everyone standing has voted
+export const nextVoter = (party: Party, votes: PartyVote[]): number | undefined => {
+  const voter = party.members.findIndex((member, idx) => isStanding(member) && !votes.some(vote => vote.voter === idx));
+  return voter === -1 ? undefined : voter;
+};
+
+// Offered choices are told apart by id, free-text actions by what they say
+const voteKey = (choice: Choice): string => (choice.isCustom ? `custom:${choice.text.trim().toLowerCase()}` : choice.id);
+
+export const countVotes = (votes: PartyVote[], choice: Choice): number =>
+  votes.filter(vote => voteKey(vote.choice) === voteKey(choice)).length;
+
+// The most voted choice. A tie goes to the active player's pick if it is among the tied ones,
+// otherwise to the tied choice voted first.
+export const tallyVotes = (party: Party, votes: PartyVote[]): Choice | undefined => {
+  const top = Math.max(...votes.map(vote => countVotes(votes, vote.choice)));
+  const tied = votes.filter(vote => countVotes(votes, vote.choice) === top);
+  return (tied.find(vote => vote.voter === party.active) ?? tied[0])?.choice;
+};
+
+export const partyBrief = (party: Party, next: number): PartyBrief => ({
+  mode: party.mode,
+  members: party.members.map(({ character, hp }) => ({ name: character.name, archetype: character.archetype, hp })),
+  next: party.members[next].character.name,
+});
+
+// Prompt-ready description of the party, shared by the text engines
+export const formatParty = ({ mode, members, next }: PartyBrief, actor: string): string => `
+    Grupo de ${members.length} jugadores que comparten pantalla (${mode === "vote" ? "votan juntos cada decisión" : "deciden por turnos"}):
+${members.map(member => `    - ${member.name}, ${member.archetype}: ${member.hp > 0 ? `vida ${member.hp}` : "caído, ya no actúa"}`).join("\n")}
+    La acción de este turno es de ${actor}: hpChange, inventoryAdd e inventoryRemove se aplican solo a ${actor}.
+    El nuevo segmento se dirige a ${next} por su nombre y las 4 opciones son para ${next}${mode === "vote" ? ", aunque las vote todo el grupo" : ""}.
+    Si ${actor} cae, la partida sigue con el resto: pon ending en "death" solo si no queda nadie en pie.
+  `;
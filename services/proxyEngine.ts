@@ -0,0 +1,107 @@
+import { ApiErrorBody, Archetype, Choice, ChoicesRequest, Engines, StoryEngineResponse, StoryRequest, StoryStreamEvent, SummaryRequest } from "../types";
+import { StoryEngineError, StoryErrorKind, abortedError } from "./engineErrors";
+import { ensureValidChoices, isRecord } from "./storyValidation";
+
+// Engines that call the app's own /api endpoints (server/api.ts). The Gemini key stays on the server,
+// which also retries; failures arrive already classified.
+
+const ERROR_KINDS: StoryErrorKind[] = ["RATE_LIMIT", "SAFETY_BLOCK", "NETWORK", "MALFORMED_OUTPUT", "ABORTED", "UNKNOWN"];
+
+const toEngineError = (kind: unknown, message: string): StoryEngineError =>
+  new StoryEngineError(ERROR_KINDS.includes(kind as StoryErrorKind) ? (kind as StoryErrorKind) : "UNKNOWN", message);
+
+const post = async (url: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      // The session travels in the cookie the server sets, which same-origin requests send on their own
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw abortedError(error);
+    throw new StoryEngineError("NETWORK", error instanceof Error ? error.message : String(error), { cause: error });
+  }
+  if (response.ok) return response;
+
+  const failure = (await response.json().catch(() => null)) as ApiErrorBody | null;
+  if (response.status === 429) throw new StoryEngineError("RATE_LIMIT", failure?.error.message ?? "Too many requests");
+  // A proxy or gateway in between answered, not our server
+  if (!failure?.error) throw new StoryEngineError(response.status >= 500 ? "NETWORK" : "UNKNOWN", `HTTP ${response.status}`);
+  throw toEngineError(failure.error.kind, failure.error.message);
+};
+
+const postJson = async (url: string, body: unknown, signal?: AbortSignal): Promise<Record<string, unknown>> => {
+  const response = await post(url, body, signal);
+  try {
+    const data: unknown = await response.json();
+    if (isRecord(data)) return data;
+  } catch (error) {
+    if (signal?.aborted) throw abortedError(error);
+  }
+  throw new StoryEngineError("MALFORMED_OUTPUT", `Unexpected answer from ${url}`);
+};
+
+// Reads the story's event lines as they arrive
+const readStoryStream = async (response: Response, onNarrative?: (narrative: string) => void): Promise<StoryEngineResponse> => {
+  if (!response.body) throw new StoryEngineError("MALFORMED_OUTPUT", "Empty story stream");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split("\n");
+    buffered = done ? "" : lines.pop() ?? "";
+
+    for (const line of lines.filter(line => line.trim() !== "")) {
+      const event = JSON.parse(line) as StoryStreamEvent;
+      if (event.type === "narrative") onNarrative?.(event.text);
+      else if (event.type === "response") return event.response;
+      else if (event.type === "error") throw toEngineError(event.kind, event.message);
+    }
+    if (done) throw new StoryEngineError("NETWORK", "The story stream ended early");
+  }
+};
+
+const generateStorySegment = async ({ signal, onNarrative, ...request }: StoryRequest): Promise<StoryEngineResponse> => {
+  const response = await post("/api/story", request, signal);
+  try {
+    return await readStoryStream(response, onNarrative);
+  } catch (error) {
+    if (signal?.aborted) throw abortedError(error);
+    if (error instanceof StoryEngineError) throw error;
+    // A broken line, or the connection dropping mid-stream
+    throw new StoryEngineError(error instanceof SyntaxError ? "MALFORMED_OUTPUT" : "NETWORK", String(error), { cause: error });
+  }
+};
+
+const suggestChoices = async ({ signal, ...request }: ChoicesRequest): Promise<Choice[]> => {
+  const { choices } = await postJson("/api/story/choices", request, signal);
+  return ensureValidChoices(choices);
+};
+
+const summarizeStory = async ({ signal, ...request }: SummaryRequest): Promise<string> => {
+  const { summary } = await postJson("/api/story/summary", request, signal);
+  if (typeof summary !== "string") throw new StoryEngineError("MALFORMED_OUTPUT", "No summary in the answer");
+  return summary;
+};
+
+const suggestArchetypes = async (theme: string, language: StoryRequest["language"], signal?: AbortSignal): Promise<Archetype[]> => {
+  const { archetypes } = await postJson("/api/story/archetypes", { theme, language }, signal);
+  if (!Array.isArray(archetypes)) throw new StoryEngineError("MALFORMED_OUTPUT", "No archetypes in the answer");
+  return archetypes as Archetype[];
+};
+
+const generateSceneImage = async (prompt: string, signal?: AbortSignal): Promise<string | undefined> => {
+  const { url } = await postJson("/api/image", { prompt }, signal);
+  return typeof url === "string" ? url : undefined;
+};
+
+export const createProxyEngines = (): Engines => ({
+  story: { generateStorySegment, suggestChoices, summarizeStory, suggestArchetypes },
+  image: { generateSceneImage },
+});
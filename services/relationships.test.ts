@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { NpcUpdate } from "../types";
+import { updateFactions, updateNpcs } from "./relationships";
+
+const met = (changes: Partial<NpcUpdate>): NpcUpdate => ({
+  name: "Marta",
+  description: "",
+  faction: "",
+  stance: "neutral",
+  trustChange: 0,
+  ...changes,
+});
+
+describe("updateNpcs", () => {
+  it("adds someone met for the first time", () => {
+    expect(updateNpcs([], [met({ description: "The lighthouse keeper", faction: "Keepers", trustChange: 10 })])).toEqual([
+      { name: "Marta", description: "The lighthouse keeper", faction: "Keepers", stance: "neutral", trust: 10, lastChange: 10 },
+    ]);
+  });
+
+  it("adds up trust for someone met again, whatever case their name is written in", () => {
+    const first = updateNpcs([], [met({ description: "The lighthouse keeper", trustChange: 20 })]);
+    const [marta] = updateNpcs(first, [met({ name: "marta", stance: "hostile", trustChange: -30 })]);
+    expect(marta).toMatchObject({ name: "Marta", description: "The lighthouse keeper", stance: "hostile", trust: -10, lastChange: -30 });
+  });
+
+  it("forgets the trend of anyone the turn leaves alone", () => {
+    const first = updateNpcs([], [met({ trustChange: 20 }), met({ name: "Olga", trustChange: -10 })]);
+    expect(updateNpcs(first, [met({ trustChange: 5 })])).toMatchObject([{ name: "Marta", lastChange: 5 }, { name: "Olga", trust: -10, lastChange: 0 }]);
+  });
+
+  it("keeps trust between -100 and 100", () => {
+    let npcs = updateNpcs([], [met({ trustChange: 30 })]);
+    for (let turn = 0; turn < 5; turn++) npcs = updateNpcs(npcs, [met({ trustChange: 30 })]);
+    expect(npcs[0].trust).toBe(100);
+  });
+});
+
+describe("updateFactions", () => {
+  it("adds up reputation per faction", () => {
+    const once = updateFactions([], [{ name: "Guild", reputationChange: 15 }]);
+    expect(updateFactions(once, [{ name: "guild", reputationChange: -5 }])).toEqual([{ name: "Guild", reputation: 10, lastChange: -5 }]);
+  });
+
+  it("forgets the trend of factions the turn leaves alone", () => {
+    const once = updateFactions([], [{ name: "Guild", reputationChange: 15 }]);
+    expect(updateFactions(once, [])).toEqual([{ name: "Guild", reputation: 15, lastChange: 0 }]);
+  });
+});
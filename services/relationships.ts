@@ -0,0 +1,62 @@
+import { FactionStanding, FactionUpdate, Npc, NpcStance, NpcUpdate, StoryFacts } from "../types";
+
+export const NPC_STANCES: NpcStance[] = ["ally", "neutral", "hostile"];
+
+// Trust and reputation both run from -MAX_TRUST to MAX_TRUST
+export const MAX_TRUST = 100;
+// Most one turn can move either, so a single scene can't undo a whole run's worth of dealings
+export const MAX_TRUST_CHANGE = 30;
+
+const STANCE_NAMES: Record<NpcStance, string> = { ally: "aliado", neutral: "neutral", hostile: "hostil" };
+
+const clampTrust = (value: number): number => Math.max(-MAX_TRUST, Math.min(MAX_TRUST, value));
+
+// Case-insensitive, like the other facts, so "la bruja" and "La Bruja" are one person
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Applies a turn's dealings to the journal. Someone met again keeps their name as first written;
+// a description or faction only replaces the known one when the story engine has something to say.
+// lastChange is this turn's alone, so whoever the turn leaves alone loses their trend.
+export const updateNpcs = (npcs: Npc[], updates: NpcUpdate[]): Npc[] => {
+  const journal = npcs.map(npc => (npc.lastChange === 0 ? npc : { ...npc, lastChange: 0 }));
+  updates.forEach(update => {
+    const idx = journal.findIndex(npc => sameName(npc.name, update.name));
+    const known = journal[idx];
+    const npc: Npc = {
+      name: known?.name ?? update.name,
+      description: update.description || known?.description || "",
+      ...((update.faction || known?.faction) && { faction: update.faction || known?.faction }),
+      stance: update.stance,
+      trust: clampTrust((known?.trust ?? 0) + update.trustChange),
+      lastChange: update.trustChange,
+    };
+    if (known) journal[idx] = npc;
+    else journal.push(npc);
+  });
+  return journal;
+};
+
+export const updateFactions = (factions: FactionStanding[], updates: FactionUpdate[]): FactionStanding[] => {
+  const standings = factions.map(faction => (faction.lastChange === 0 ? faction : { ...faction, lastChange: 0 }));
+  updates.forEach(update => {
+    const idx = standings.findIndex(faction => sameName(faction.name, update.name));
+    const known = standings[idx];
+    const standing: FactionStanding = {
+      name: known?.name ?? update.name,
+      reputation: clampTrust((known?.reputation ?? 0) + update.reputationChange),
+      lastChange: update.reputationChange,
+    };
+    if (known) standings[idx] = standing;
+    else standings.push(standing);
+  });
+  return standings;
+};
+
+// Prompt-ready relationships, shared by the text engines through the story context
+export const formatRelationships = ({ npcs, factions }: Pick<StoryFacts, "npcs" | "factions">): string => `
+    Relaciones con los personajes (confianza de -${MAX_TRUST} a ${MAX_TRUST}): ${npcs
+      .map(npc => `${npc.name} (${STANCE_NAMES[npc.stance]}, confianza ${npc.trust}${npc.faction ? `, de ${npc.faction}` : ""})`)
+      .join(", ") || "Ninguna"}
+    Reputación con las facciones (de -${MAX_TRUST} a ${MAX_TRUST}): ${factions
+      .map(faction => `${faction.name} ${faction.reputation}`)
+      .join(", ") || "Ninguna"}`;
@@ -0,0 +1,42 @@
+import { StoryEngineError, abortedError } from "./engineErrors";
+
+export interface RetryOptions {
+  attempts?: number; // Total tries, including the first one
+  baseDelayMs?: number; // Doubled after every failed try
+  signal?: AbortSignal;
+}
+
+// Resolves after ms, rejects with an ABORTED error as soon as the signal fires
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortedError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Retries retryable StoryEngineErrors with exponential backoff and a little jitter.
+// Anything else, and the last failure, is rethrown as is.
+export const withRetry = async <T>(
+  run: () => Promise<T>,
+  { attempts = 3, baseDelayMs = 800, signal }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (!(error instanceof StoryEngineError) || !error.retryable || attempt >= attempts || signal?.aborted) {
+        throw error;
+      }
+      const delay = baseDelayMs * 2 ** (attempt - 1) * (1 + Math.random() * 0.25);
+      console.warn(`${error.kind} on attempt ${attempt}/${attempts}, retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,185 @@
+import { EndingKind, GameState, GameTurn, Item, StoryFacts, StoryNode, StoryTree } from "../types";
+import { createStoryMemory } from "./storyMemory";
+import { DEFAULT_CHARACTER } from "./character";
+import { applyInventoryChanges, itemFromName, slugify } from "./inventory";
+import { pathTo } from "./storyTree";
+import { endingOf } from "./endings";
+import { SAVES_STORE, withStore } from "./database";
+import { DEFAULT_ART_STYLE } from "./sceneImages";
+import { DEFAULT_DIFFICULTY } from "./difficulty";
+
+// Bump whenever GameState changes shape, and add a migration below
+export const SAVE_VERSION = 9;
+
+export const AUTOSAVE_ID = "autosave";
+
+export interface SaveGame {
+  version: number;
+  id: string;
+  name: string;
+  savedAt: number; // epoch ms
+  state: GameState;
+}
+
+// What the slot manager lists, without the heavy turn history
+export interface SaveSummary {
+  id: string;
+  name: string;
+  savedAt: number;
+  theme: string;
+  hp: number;
+  turns: number;
+  isGameOver: boolean;
+  ending?: EndingKind; // Only for finished runs
+}
+
+// Before v5 a run was a single list of turns
+type LinearState = Omit<GameState, "tree"> & { history: GameTurn[] };
+
+// Rebuilds the state after each turn by undoing the later turns' changes from the final one
+const linearTree = ({ history, hp, inventory, memory }: LinearState): StoryTree => {
+  const nodes: StoryNode[] = [];
+  let turnHp = hp;
+  let turnInventory = inventory;
+  for (let idx = history.length - 1; idx >= 0; idx--) {
+    const turn = history[idx];
+    const previous = history[idx - 1];
+    nodes.unshift({
+      id: `turn-${idx + 1}`,
+      parentId: idx > 0 ? `turn-${idx}` : null,
+      choice: previous?.chosenChoice,
+      checkResult: previous?.checkResult,
+      turn: idx === history.length - 1 ? turn : { ...turn, chosenChoice: undefined, checkResult: undefined },
+      hp: turnHp,
+      inventory: turnInventory,
+      facts: memory.facts, // Only the latest facts were kept
+    });
+    turnHp -= turn.hpChange;
+    const restored: Item[] = turn.inventoryRemoved.map(delta => ({ ...itemFromName(delta.name), id: delta.id, quantity: delta.quantity }));
+    turnInventory = applyInventoryChanges(turnInventory, restored, turn.inventoryAdded).inventory;
+  }
+  return {
+    nodes: Object.fromEntries(nodes.map(node => [node.id, node])),
+    currentId: nodes.length > 0 ? nodes[nodes.length - 1].id : null,
+  };
+};
+
+// Each entry upgrades a save from version N to N + 1
+const MIGRATIONS: Record<number, (save: SaveGame) => SaveGame> = {
+  // v2: story memory. Old runs start with an empty one and get summarized on the next turn.
+  1: save => ({ ...save, version: 2, state: { ...save.state, memory: createStoryMemory() } }),
+  // v3: character creation. Old runs get a generic adventurer.
+  2: save => ({ ...save, version: 3, state: { ...save.state, character: DEFAULT_CHARACTER } }),
+  // v4: structured items. Names become single quest items, turn deltas become one of each.
+  3: save => {
+    const toDeltas = (names: unknown) => (names as string[]).map(name => ({ id: slugify(name), name, quantity: 1 }));
+    return {
+      ...save,
+      version: 4,
+      state: {
+        ...save.state,
+        inventory: (save.state.inventory as unknown as string[]).map(itemFromName),
+        history: (save.state as unknown as LinearState).history.map((turn): GameTurn => ({
+          ...turn,
+          inventoryAdded: toDeltas(turn.inventoryAdded),
+          inventoryRemoved: toDeltas(turn.inventoryRemoved),
+        })),
+      },
+    };
+  },
+  // v5: branching runs. The old list of turns becomes a tree with a single path.
+  4: save => {
+    const { history, ...state } = save.state as unknown as LinearState;
+    return { ...save, version: 5, state: { ...state, tree: linearTree({ ...state, history }) } };
+  },
+  // v6: typed endings and goals. Old endings are death at 0 HP and victory otherwise; old runs have no goals.
+  5: save => {
+    const withGoals = (facts: StoryFacts): StoryFacts => ({ ...facts, goals: [] });
+    const nodes = Object.values(save.state.tree.nodes).map((node): StoryNode => ({
+      ...node,
+      facts: withGoals(node.facts),
+      turn: node.turn.choices.length === 0 ? { ...node.turn, ending: node.hp <= 0 ? "death" : "victory" } : node.turn,
+    }));
+    return {
+      ...save,
+      version: 6,
+      state: {
+        ...save.state,
+        memory: { ...save.state.memory, facts: withGoals(save.state.memory.facts) },
+        tree: { ...save.state.tree, nodes: Object.fromEntries(nodes.map(node => [node.id, node])) },
+      },
+    };
+  },
+  // v7: art styles. Old runs keep the painted look; their images can't be redrawn, the prompts weren't kept.
+  6: save => ({ ...save, version: 7, state: { ...save.state, artStyle: DEFAULT_ART_STYLE } }),
+  // v8: difficulty presets. Old runs were played without caps, normal is the closest.
+  7: save => ({ ...save, version: 8, state: { ...save.state, difficulty: DEFAULT_DIFFICULTY } }),
+  // v9: NPC relationships and factions. Old runs start with an empty journal.
+  8: save => {
+    const withJournal = (facts: StoryFacts): StoryFacts => ({ ...facts, npcs: [], factions: [] });
+    const nodes = Object.values(save.state.tree.nodes).map((node): StoryNode => ({ ...node, facts: withJournal(node.facts) }));
+    return {
+      ...save,
+      version: 9,
+      state: {
+        ...save.state,
+        memory: { ...save.state.memory, facts: withJournal(save.state.memory.facts) },
+        tree: { ...save.state.tree, nodes: Object.fromEntries(nodes.map(node => [node.id, node])) },
+      },
+    };
+  },
+};
+
+const migrate = (save: SaveGame): SaveGame => {
+  let current = save;
+  while (current.version < SAVE_VERSION) {
+    const step = MIGRATIONS[current.version];
+    if (!step) {
+      throw new Error(`No migration for save version ${current.version}`);
+    }
+    current = step(current);
+  }
+  return current;
+};
+
+const toSummary = ({ id, name, savedAt, state }: SaveGame): SaveSummary => ({
+  id,
+  name,
+  savedAt,
+  theme: state.theme,
+  hp: state.hp,
+  turns: pathTo(state.tree, state.tree.currentId).length,
+  isGameOver: state.isGameOver,
+  ...(state.isGameOver && { ending: endingOf(state.tree.currentId ? state.tree.nodes[state.tree.currentId].turn : null) }),
+});
+
+// Most recent first
+export const listSaves = async (): Promise<SaveSummary[]> => {
+  const saves = await withStore<SaveGame[]>(SAVES_STORE, "readonly", store => store.getAll());
+  return saves
+    .filter(save => save.version <= SAVE_VERSION)
+    .flatMap(save => {
+      // One corrupt save must not hide the others
+      try {
+        return [toSummary(migrate(save))];
+      } catch (err) {
+        console.warn(`Skipping unreadable save ${save.id}`, err);
+        return [];
+      }
+    })
+    .sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const loadSave = async (id: string): Promise<SaveGame | undefined> => {
+  const save = await withStore<SaveGame | undefined>(SAVES_STORE, "readonly", store => store.get(id));
+  return save ? migrate(save) : undefined;
+};
+
+export const writeSave = async (id: string, name: string, state: GameState): Promise<void> => {
+  const save: SaveGame = { version: SAVE_VERSION, id, name, savedAt: Date.now(), state };
+  await withStore(SAVES_STORE, "readwrite", store => store.put(save));
+};
+
+export const deleteSave = async (id: string): Promise<void> => {
+  await withStore(SAVES_STORE, "readwrite", store => store.delete(id));
+};
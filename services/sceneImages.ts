@@ -0,0 +1,95 @@
+import { ArtStyle, Character, ImageEngine } from "../types";
+import { IMAGES_STORE, pruneStore, withStore } from "./database";
+
+export const ART_STYLES: ArtStyle[] = ["painterly", "comic", "watercolor", "pixel", "noir"];
+
+export const DEFAULT_ART_STYLE: ArtStyle = "painterly";
+
+// Prepended to every image prompt of a run so its scenes look like the same book
+const ART_STYLE_PROMPTS: Record<ArtStyle, string> = {
+  painterly: "Digital oil painting, rich textures, dramatic cinematic lighting, muted palette.",
+  comic: "Comic book panel, bold ink outlines, flat vivid colors, halftone shading.",
+  watercolor: "Loose watercolor illustration, soft bleeding edges, paper texture, pastel tones.",
+  pixel: "16-bit pixel art, limited palette, crisp pixels, side-view game scene.",
+  noir: "Black and white film noir still, high contrast, deep shadows, grainy film.",
+};
+
+// Style first, then the protagonist, then the scene. The scene always goes on the last line.
+export const buildImagePrompt = (style: ArtStyle, character: Character, visualDescription: string): string =>
+  [
+    ART_STYLE_PROMPTS[style],
+    `Main character: ${character.name}, ${character.archetype}. Keep the same look in every scene.`,
+    visualDescription,
+  ].join("\n");
+
+// Images are data URLs of a megabyte or two, so the cache keeps only the most recently used ones
+const MAX_CACHED_IMAGES = 50;
+
+// 64-bit FNV-1a, hex encoded. Only a cache key, used where crypto.subtle is missing.
+const fnv1a = (text: string): string => {
+  let hash = 0xcbf29ce484222325n;
+  for (const byte of new TextEncoder().encode(text)) {
+    hash = BigInt.asUintN(64, (hash ^ BigInt(byte)) * 0x100000001b3n);
+  }
+  return `fnv-${hash.toString(16).padStart(16, "0")}`;
+};
+
+// SHA-256 of the prompt, hex encoded. crypto.subtle only exists in secure contexts (https or localhost).
+export const hashPrompt = async (prompt: string): Promise<string> => {
+  if (!crypto.subtle) return fnv1a(prompt);
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(prompt));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+interface CachedImage {
+  hash: string;
+  url: string;
+  createdAt: number; // epoch ms
+  usedAt: number; // epoch ms, the least recently used images are evicted first
+}
+
+// The cache is a nice-to-have: any failure just means a cache miss
+const readCache = (hash: string): Promise<string | undefined> =>
+  withStore<CachedImage | undefined>(IMAGES_STORE, "readonly", store => store.get(hash))
+    .then(entry => {
+      // Mark it used, without waiting: a failure only makes it older than it is
+      if (entry) withStore(IMAGES_STORE, "readwrite", store => store.put({ ...entry, usedAt: Date.now() })).catch(() => undefined);
+      return entry?.url;
+    })
+    .catch(err => {
+      console.warn("Image cache unavailable", err);
+      return undefined;
+    });
+
+const writeCache = (hash: string, url: string): Promise<void> => {
+  const now = Date.now();
+  return withStore(IMAGES_STORE, "readwrite", store => store.put({ hash, url, createdAt: now, usedAt: now } satisfies CachedImage))
+    .then(() => pruneStore(IMAGES_STORE, "usedAt", MAX_CACHED_IMAGES))
+    .catch(err => console.warn("Could not cache image", err));
+};
+
+export interface RenderOptions {
+  signal?: AbortSignal;
+  refresh?: boolean; // Skip the cached image and replace it with a new one
+}
+
+// Illustrates a prompt, reusing the image drawn last time the same prompt was seen
+export const renderScene = async (engine: ImageEngine, prompt: string, { signal, refresh = false }: RenderOptions = {}): Promise<string | undefined> => {
+  const hash = await hashPrompt(prompt);
+  if (!refresh) {
+    const cached = await readCache(hash);
+    if (cached) return cached;
+  }
+  const url = await engine.generateSceneImage(prompt, signal);
+  if (url) await writeCache(hash, url);
+  return url;
+};
+
+const IMAGES_KEY = "ai-chronicles-images";
+
+// Illustrations are on unless the player turned them off
+export const loadImagesEnabled = (): boolean => localStorage.getItem(IMAGES_KEY) !== "off";
+
+export const storeImagesEnabled = (enabled: boolean) => {
+  localStorage.setItem(IMAGES_KEY, enabled ? "on" : "off");
+};
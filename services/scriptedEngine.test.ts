@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { Character, Engines, Language } from "../types";
+import { parseCampaign } from "./campaign";
+import { EngineState, createEngineState, gameReducer } from "./gameEngine";
+import { createScriptedEngines } from "./scriptedEngine";
+import { activeHistory } from "./storyTree";
+import campaignExample from "./scripts/campaign-example.json";
+
+const HERO: Character = { name: "Ada", archetype: "Exploradora", attributes: { strength: 2, agility: 2, wits: 2 } };
+
+// Asks the engine for the pending turn the way App does, and feeds the answer back to the reducer
+const playPending = async (engines: Engines, state: EngineState, language: Language, nodeId: string): Promise<EngineState> => {
+  const { pending } = state;
+  if (!pending) throw new Error("Nothing to play");
+  const response = await engines.story.generateStorySegment({
+    theme: state.game.theme,
+    language,
+    character: state.game.character,
+    hp: pending.hp,
+    inventory: pending.inventory,
+    lastChoice: pending.choice,
+    checkResult: pending.checkResult,
+    depth: pending.depth,
+    context: pending.context,
+    ...(state.game.campaign && { campaign: { campaign: state.game.campaign, beatIndex: pending.beatIndex } }),
+    difficulty: state.game.difficulty,
+  });
+  return gameReducer(state, { type: "turnReceived", requestId: pending.requestId, nodeId, response });
+};
+
+describe("scripted engine", () => {
+  it.each<Language>(["es", "en"])("plays the demo adventure from start to ending (%s)", async (language) => {
+    const engines = createScriptedEngines(undefined, { streamDelayMs: 0 });
+    let state = gameReducer(createEngineState(), {
+      type: "start", theme: "Lighthouse", character: HERO, artStyle: "painterly", difficulty: "normal", openingId: "unused",
+    });
+    state = await playPending(engines, state, language, "turn-0");
+
+    let turn = 1;
+    while (state.phase === "PLAYING") {
+      const [choice] = activeHistory(state.game.tree).at(-1)!.choices;
+      state = gameReducer(state, { type: "choose", choice, dice: 0.99 });
+      state = await playPending(engines, state, language, `turn-${turn++}`);
+      if (turn > 10) throw new Error("The script never ended");
+    }
+
+    const turns = activeHistory(state.game.tree);
+    expect(state.phase).toBe("GAMEOVER");
+    expect(turns).toHaveLength(5);
+    expect(turns.at(-1)?.ending).toBe("victory");
+    expect(state.game.hp).toBe(95); // The script hurts for 10 and heals 5
+    expect(state.game.inventory.map(item => item.id)).toContain("linterna-de-laton");
+  });
+
+  it("plays the same segment again after a rewind, whatever was asked in between", async () => {
+    const engines = createScriptedEngines(undefined, { streamDelayMs: 0 });
+    let state = gameReducer(createEngineState(), {
+      type: "start", theme: "Lighthouse", character: HERO, artStyle: "painterly", difficulty: "normal", openingId: "unused",
+    });
+    state = await playPending(engines, state, "en", "turn-0");
+    for (let turn = 1; turn <= 3; turn++) {
+      state = gameReducer(state, { type: "choose", choice: activeHistory(state.game.tree).at(-1)!.choices[0], dice: 0.99 });
+      state = await playPending(engines, state, "en", `turn-${turn}`);
+    }
+    const second = state.game.tree.nodes["turn-2"].turn.text;
+
+    // Back to the first turn, and down another branch
+    state = gameReducer(state, { type: "goTo", nodeId: "turn-1" });
+    const [, other] = activeHistory(state.game.tree).at(-1)!.choices;
+    state = gameReducer(state, { type: "choose", choice: other, dice: 0.99 });
+    state = await playPending(engines, state, "en", "branch");
+
+    expect(state.game.tree.nodes.branch.turn.text).toBe(second);
+  });
+
+  it("advances a campaign one beat per turn until every beat is reached", async () => {
+    const engines = createScriptedEngines(undefined, { streamDelayMs: 0 });
+    const campaign = parseCampaign(JSON.stringify(campaignExample));
+    let state = gameReducer(createEngineState(), {
+      type: "start", theme: campaign.theme, character: HERO, artStyle: "painterly", difficulty: "normal", campaign, openingId: "opening",
+    });
+
+    const beats: number[] = [];
+    for (let turn = 1; state.phase === "PLAYING"; turn++) {
+      const [choice] = activeHistory(state.game.tree).at(-1)!.choices;
+      state = gameReducer(state, { type: "choose", choice, dice: 0.99 });
+      beats.push(state.pending!.beatIndex);
+      state = await playPending(engines, state, "en", `turn-${turn}`);
+      if (turn > 10) throw new Error("The script never ended");
+    }
+
+    // The demo script wins on its fifth segment, the turn that reaches the last beat
+    expect(beats).toEqual(campaign.beats.map((_, beat) => beat));
+    expect(state.game.tree.nodes[state.game.tree.currentId!].beatIndex).toBe(campaign.beats.length);
+  });
+});
@@ -0,0 +1,108 @@
+import { Archetype, Choice, ChoicesRequest, Engines, Language, StoryEngineResponse, StoryRequest, SummaryRequest } from "../types";
+import { ensureValidChoices, ensureValidStory, validateArchetypes } from "./storyValidation";
+import { DEFAULT_ARCHETYPES } from "./character";
+import { abortedError } from "./engineErrors";
+import { sleep } from "./retry";
+import demoScript from "./scripts/demo.json";
+import demoScriptEn from "./scripts/demo.en.json";
+
+// A fixed sequence of segments, one per turn: the segment for a turn is the one at its depth in the played path
+export interface StoryScript {
+  title: string;
+  archetypes?: Archetype[];
+  segments: StoryEngineResponse[];
+}
+
+// Placeholder illustration so the image panel still has something to show offline
+const renderPlaceholderImage = (prompt: string): string => {
+  // Only the scene, the art style and protagonist lines come before it
+  const scene = prompt.split("\n").pop() ?? prompt;
+  const caption = scene.length > 80 ? `${scene.substring(0, 77)}...` : scene;
+  const escaped = caption.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const svg = `
+    <svg xmlns="http://www.w3.org/2000/svg" width="1280" height="720" viewBox="0 0 1280 720">
+      <rect width="1280" height="720" fill="#0f172a"/>
+      <text x="640" y="360" fill="#64748b" font-family="sans-serif" font-size="28" text-anchor="middle">${escaped}</text>
+    </svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg.trim())}`;
+};
+
+// The same adventure in every language, with matching segments and item ids.
+// JSON imports type enums as plain strings; segments are validated at runtime anyway.
+const DEMO_SCRIPTS: Record<Language, StoryScript> = {
+  es: demoScript as StoryScript,
+  en: demoScriptEn as StoryScript,
+};
+
+export interface ScriptedEngineOptions {
+  streamDelayMs?: number; // Pause between streamed words, 0 to deliver the narrative at once
+}
+
+// Deterministic engines that replay a local script. No network, no API key.
+// The same turn always gets the same segment, whatever was asked before: rewinds, retries and reloads replay it,
+// and switching language mid-run carries on from the matching segment.
+export const createScriptedEngines = (
+  scripts: Record<Language, StoryScript> = DEMO_SCRIPTS,
+  { streamDelayMs = 40 }: ScriptedEngineOptions = {}
+): Engines => {
+  Object.values(scripts).forEach(script => {
+    if (script.segments.length === 0) {
+      throw new Error(`Story script "${script.title}" has no segments`);
+    }
+  });
+
+  // Once the script runs out, turns keep getting its last segment
+  const segmentAt = (language: Language, depth: number): StoryEngineResponse => {
+    const { segments } = scripts[language];
+    return segments[Math.max(0, Math.min(depth, segments.length - 1))];
+  };
+
+  const generateStorySegment = async ({ language, depth, inventory, campaign, signal, onNarrative }: StoryRequest): Promise<StoryEngineResponse> => {
+    if (signal?.aborted) throw abortedError();
+    const segment = segmentAt(language, depth);
+
+    // Stream word by word, the way the model would
+    if (onNarrative && streamDelayMs > 0) {
+      const words = segment.narrative.split(/(?<=\s)/);
+      for (let i = 1; i <= words.length; i++) {
+        await sleep(streamDelayMs, signal);
+        onNarrative(words.slice(0, i).join(""));
+      }
+    }
+
+    // Scripts are hand-written, hold them to the same rules as the model.
+    // Validation also hands out a copy, so callers can't mutate the script.
+    const response = await ensureValidStory(segment, inventory);
+
+    // The script knows nothing about the campaign, so every turn reaches the next beat until none are left
+    if (campaign && campaign.beatIndex < campaign.campaign.beats.length) response.beatReached = true;
+    return response;
+  };
+
+  // The choices of the turn's segment, or of the closest one before it that had any
+  const suggestChoices = async ({ language, depth, signal }: ChoicesRequest): Promise<Choice[]> => {
+    if (signal?.aborted) throw abortedError();
+    for (let at = depth; at > 0; at--) {
+      const { choices } = segmentAt(language, at);
+      if (choices.length > 0) return ensureValidChoices(choices);
+    }
+    return ensureValidChoices(segmentAt(language, 0).choices);
+  };
+
+  // Keeps the first sentence of each turn, which is enough to exercise the memory offline
+  const summarizeStory = async ({ previousSummary, turns, signal }: SummaryRequest): Promise<string> => {
+    if (signal?.aborted) throw abortedError();
+    const sentences = turns.map(turn => turn.text.split(/(?<=[.!?])\s/)[0]);
+    return [previousSummary, ...sentences].filter(Boolean).join(" ");
+  };
+
+  const suggestArchetypes = async (_theme: string, language: Language): Promise<Archetype[]> => {
+    const archetypes = validateArchetypes(scripts[language].archetypes);
+    return archetypes.length > 0 ? archetypes : DEFAULT_ARCHETYPES[language];
+  };
+
+  return {
+    story: { generateStorySegment, suggestChoices, summarizeStory, suggestArchetypes },
+    image: { generateSceneImage: async (prompt) => renderPlaceholderImage(prompt) },
+  };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { Character, GameTurn } from "../types";
+import { createEngineState } from "./gameEngine";
+import { createParty } from "./party";
+import { acceptRemoteChoice, applyRelayMessage, buildSnapshot } from "./session";
+
+const HERO: Character = { name: "A", archetype: "B", attributes: { strength: 1, agility: 1, wits: 1 } };
+
+const TURN: GameTurn = {
+  text: "A door.",
+  choices: [
+    { id: "open", text: "Open it", check: { skill: "strength", difficulty: 10 } },
+    { id: "item-use-potion", text: "Use potion", itemAction: { kind: "use", itemId: "potion" } },
+  ],
+  hpChange: 0,
+  inventoryAdded: [],
+  inventoryRemoved: [],
+};
+
+describe("acceptRemoteChoice", () => {
+  it("uses the host's own copy of an offered choice", () => {
+    expect(acceptRemoteChoice(TURN, { id: "open", text: "Win the game", check: { skill: "wits", difficulty: 1 } })).toBe(TURN.choices[0]);
+  });
+
+  it("drops choices that weren't offered, and item actions", () => {
+    expect(acceptRemoteChoice(TURN, { id: "other", text: "Other" })).toBeUndefined();
+    expect(acceptRemoteChoice(TURN, { id: "item-use-potion", text: "Use potion" })).toBeUndefined();
+    expect(acceptRemoteChoice(TURN, "open")).toBeUndefined();
+  });
+
+  it("accepts a free action within the field's length", () => {
+    expect(acceptRemoteChoice(TURN, { isCustom: true, text: "  Knock  " })).toMatchObject({ text: "Knock", isCustom: true });
+    expect(acceptRemoteChoice(TURN, { isCustom: true, text: "x".repeat(201) })).toBeUndefined();
+    expect(acceptRemoteChoice(TURN, { isCustom: true, text: "   " })).toBeUndefined();
+  });
+});
+
+describe("applyRelayMessage", () => {
+  it("replaces the streamed text and any error with a new snapshot", () => {
+    const info = { role: "guest" as const, status: "open" as const, players: [], streamingText: "Once", error: "HOST_AWAY" as const };
+    const snapshot = { theme: "t", language: "en" as const, character: HERO, hp: 90, turns: [TURN], isGameOver: false, isWaiting: false, acceptsChoices: true };
+    expect(applyRelayMessage(info, { type: "state", snapshot })).toEqual({ role: "guest", status: "open", players: [], snapshot });
+  });
+});
+
+describe("buildSnapshot", () => {
+  it("leaves the illustrations out and names the current one by id", () => {
+    const game = { ...createEngineState().game, character: HERO };
+    const turns = [{ ...TURN, imageUrl: "data:image/png;base64,AAAA" }, { ...TURN, imageUrl: "data:image/png;base64,BBBB" }];
+    const snapshot = buildSnapshot(game, turns, "en", false, "image-1");
+    expect(snapshot.turns.every(turn => !("imageUrl" in turn))).toBe(true);
+    expect(snapshot.imageId).toBe("image-1");
+    expect(snapshot.acceptsChoices).toBe(true);
+  });
+
+  it("leaves the oldest turns out of a story too long for the relay", () => {
+    const game = { ...createEngineState().game, character: HERO };
+    const turns = Array.from({ length: 40 }, (_, index) => ({ ...TURN, text: `${index} ${"word ".repeat(4000)}` }));
+    const snapshot = buildSnapshot(game, turns, "en", false);
+    expect(JSON.stringify(snapshot).length).toBeLessThan(1024 * 1024);
+    expect(snapshot.turns.length).toBeLessThan(turns.length);
+    expect(snapshot.turns[snapshot.turns.length - 1].text).toBe(turns[turns.length - 1].text);
+  });
+
+  it("takes no choices from guests in a party run", () => {
+    const game = { ...createEngineState().game, character: HERO, party: createParty("rotation", [HERO, { ...HERO, name: "C" }], 100, []) };
+    expect(buildSnapshot(game, [TURN], "en", false).acceptsChoices).toBe(false);
+  });
+});
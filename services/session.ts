@@ -0,0 +1,200 @@
+import {
+  Choice, GameState, GameTurn, Language, RelayClientMessage, RelayCloseReason, RelayErrorCode, RelayServerMessage, SessionPlayer, SessionRole,
+  SessionSnapshot,
+} from "../types";
+import { isRecord } from "./storyValidation";
+
+// Client side of networked sessions. The host's app keeps running the game as usual and publishes
+// snapshots of it to a room on the relay (server/relay.ts); guests only render them and send choices back.
+
+export type SessionStatus = "connecting" | "open" | "reconnecting" | "closed";
+
+export interface SessionConnection {
+  send: (message: RelayClientMessage) => void;
+  uploadImage: (id: string, url: string) => Promise<boolean>; // Host only: the illustration a snapshot's imageId names
+  leave: () => void; // Gives up the seat; for the host, closes the room
+  disconnect: () => void; // Drops the connection but keeps the seat, which can be resumed for a while
+}
+
+// What the app knows about its room
+export interface SessionInfo {
+  role: SessionRole;
+  status: SessionStatus;
+  room?: string; // Set once the relay has seated this player
+  playerId?: string;
+  players: SessionPlayer[];
+  error?: RelayErrorCode; // Last thing the relay refused
+  closedReason?: RelayCloseReason;
+  snapshot?: SessionSnapshot; // Guests: the story as the host last published it
+  streamingText?: string; // Guests: the next turn as the host's engine writes it
+}
+
+interface ConnectOptions {
+  hello: RelayClientMessage; // create, join, or resume a seat kept from before a page reload
+  onMessage: (message: RelayServerMessage) => void;
+  onStatusChange: (status: SessionStatus) => void;
+}
+
+// A guest's seat, kept per tab so a reload sits back down
+export interface SessionSeat {
+  room: string;
+  token: string;
+  role: SessionRole;
+}
+
+const SEAT_KEY = "ai-chronicles-room";
+const RECONNECT_DELAYS_MS = [500, 1000, 2000, 4000, 8000];
+const MAX_RECONNECTS = 12; // A little past the relay's grace period
+const MAX_ACTION_LENGTH = 200; // Same limit as the free-action field
+// Errors that mean the seat can't be had; anything else is worth another try
+const FATAL_ERRORS: RelayErrorCode[] = ["NO_ROOM", "ROOM_FULL", "TOO_MANY_ROOMS", "BAD_NAME", "BAD_TOKEN"];
+// Half the relay's message cap (server/relay.ts): past it the relay drops the connection,
+// and the guest would come back asking for the same snapshot forever
+const MAX_SNAPSHOT_TURNS_BYTES = 512 * 1024;
+
+export const relayUrl = (): string => `${location.protocol === "https:" ? "wss" : "ws"}://${location.host}/relay`;
+
+// Where a room's current illustration is served; guests load it as a plain image
+export const relayImageUrl = (room: string, id: string): string => `/relay/rooms/${room}/images/${encodeURIComponent(id)}`;
+
+export const loadSeat = (): SessionSeat | null => {
+  try {
+    const seat: unknown = JSON.parse(sessionStorage.getItem(SEAT_KEY) ?? "null");
+    return isRecord(seat) && typeof seat.room === "string" && typeof seat.token === "string" && (seat.role === "host" || seat.role === "guest")
+      ? { room: seat.room, token: seat.token, role: seat.role }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+export const storeSeat = (seat: SessionSeat | null) => {
+  if (seat) sessionStorage.setItem(SEAT_KEY, JSON.stringify(seat));
+  else sessionStorage.removeItem(SEAT_KEY);
+};
+
+const byteLength = (value: unknown): number => new TextEncoder().encode(JSON.stringify(value)).length;
+
+// What the other players see. Illustrations are heavy, so they never travel in a snapshot:
+// imageId names the current scene's, once the host has uploaded it (SessionConnection.uploadImage).
+// A long story is published from the latest turns back, as many as fit.
+export const buildSnapshot = (
+  game: GameState, turns: GameTurn[], language: Language, isWaiting: boolean, imageId?: string,
+): SessionSnapshot => {
+  const published = turns.map(({ imageUrl: _imageUrl, ...turn }) => turn);
+  const sizes = published.map(byteLength);
+  let size = sizes.reduce((total, turn) => total + turn, 0);
+  let first = 0;
+  while (size > MAX_SNAPSHOT_TURNS_BYTES && first < published.length - 1) size -= sizes[first++];
+  return {
+    theme: game.theme,
+    language,
+    character: game.character,
+    hp: game.hp,
+    turns: published.slice(first),
+    imageId,
+    isGameOver: game.isGameOver,
+    isWaiting,
+    // In a party, the players at the host's screen take the turns; a guest could otherwise act for one of them
+    acceptsChoices: !game.party,
+  };
+};
+
+// Guests may pick one of the current turn's choices or write a free action; anything else is dropped.
+// The host's own copy of the choice is used, never the one that came over the wire.
+export const acceptRemoteChoice = (turn: GameTurn, choice: unknown): Choice | undefined => {
+  if (!isRecord(choice)) return undefined;
+  if (choice.isCustom === true) {
+    const text = typeof choice.text === "string" ? choice.text.trim() : "";
+    return text && text.length <= MAX_ACTION_LENGTH ? { id: `custom-${Date.now()}`, text, isCustom: true } : undefined;
+  }
+  return turn.choices.find(offered => offered.id === choice.id && !offered.itemAction);
+};
+
+export const applyRelayMessage = (info: SessionInfo, message: RelayServerMessage): SessionInfo => {
+  switch (message.type) {
+    case "joined":
+      return { ...info, role: message.role, room: message.room, playerId: message.playerId, error: undefined };
+    case "players":
+      return { ...info, players: message.players };
+    case "state":
+      return { ...info, snapshot: message.snapshot, streamingText: undefined, error: undefined };
+    case "narrative":
+      return { ...info, streamingText: message.text };
+    case "closed":
+      return { ...info, closedReason: message.reason };
+    case "error":
+      return { ...info, error: message.code };
+    case "choice":
+      return info; // For the host's game, not for this state
+  }
+};
+
+// Opens the connection and keeps it up: after a drop it reconnects with backoff and resumes the same seat
+export const connectSession = ({ hello, onMessage, onStatusChange }: ConnectOptions): SessionConnection => {
+  let socket: WebSocket | null = null;
+  let seat = hello.type === "resume" ? { room: hello.room, token: hello.token } : null;
+  let reconnects = 0;
+  let isStopped = false;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const stop = () => {
+    isStopped = true;
+    clearTimeout(retryTimer);
+    socket?.close(1000);
+    onStatusChange("closed");
+  };
+
+  const open = () => {
+    const current = new WebSocket(relayUrl());
+    socket = current;
+    current.onopen = () => {
+      current.send(JSON.stringify(seat ? { type: "resume", ...seat } : hello));
+    };
+    current.onmessage = (event) => {
+      let message: RelayServerMessage;
+      try {
+        message = JSON.parse(String(event.data));
+      } catch {
+        return;
+      }
+      if (message.type === "joined") {
+        seat = { room: message.room, token: message.token };
+        reconnects = 0;
+        onStatusChange("open");
+      }
+      onMessage(message);
+      if (message.type === "closed" || (message.type === "error" && FATAL_ERRORS.includes(message.code))) stop();
+    };
+    current.onclose = () => {
+      if (isStopped || socket !== current) return;
+      if (reconnects >= MAX_RECONNECTS) return stop();
+      onStatusChange("reconnecting");
+      retryTimer = setTimeout(open, RECONNECT_DELAYS_MS[Math.min(reconnects, RECONNECT_DELAYS_MS.length - 1)]);
+      reconnects++;
+    };
+  };
+
+  onStatusChange("connecting");
+  open();
+
+  return {
+    send: (message) => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    uploadImage: async (id, url) => {
+      if (!seat) return false;
+      try {
+        const response = await fetch(relayImageUrl(seat.room, id), { method: "PUT", headers: { "X-Relay-Token": seat.token }, body: url });
+        return response.ok;
+      } catch {
+        return false;
+      }
+    },
+    leave: () => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: "leave" }));
+      stop();
+    },
+    disconnect: stop,
+  };
+};
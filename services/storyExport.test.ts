@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { EXPORT_VERSION, StoryExport, exportJson } from "./storyExport";
+
+const RUN: StoryExport = {
+  theme: "Ruins",
+  language: "en",
+  character: { name: "Ada", archetype: "Explorer", attributes: { strength: 2, agility: 2, wits: 2 } },
+  hp: 40,
+  inventory: [],
+  turns: [{ text: "The end.", choices: [], hpChange: 0, inventoryAdded: [], inventoryRemoved: [], ending: "victory" }],
+  ending: "victory",
+};
+
+describe("exportJson", () => {
+  it("depends only on the run unless given a timestamp", () => {
+    expect(exportJson(RUN)).toBe(exportJson(structuredClone(RUN)));
+    expect(JSON.parse(exportJson(RUN))).toEqual({ version: EXPORT_VERSION, ...RUN });
+  });
+
+  it("stamps the export time when given one", () => {
+    const exportedAt = new Date("2024-05-01T10:00:00Z");
+    expect(JSON.parse(exportJson(RUN, exportedAt)).exportedAt).toBe("2024-05-01T10:00:00.000Z");
+  });
+});
@@ -0,0 +1,133 @@
+import { Character, EndingKind, GameTurn, Item, ItemDelta, Language } from "../types";
+import { Messages } from "./i18n";
+import { slugify } from "./inventory";
+
+export type ExportFormat = "html" | "markdown" | "json";
+
+// Everything a storybook needs, taken from the finished run
+export interface StoryExport {
+  theme: string;
+  language: Language;
+  character: Character;
+  hp: number;
+  inventory: Item[];
+  turns: GameTurn[];
+  ending: EndingKind;
+}
+
+// Bump when the JSON shape changes, fixtures are compared against it
+export const EXPORT_VERSION = 1;
+
+const EXTENSIONS: Record<ExportFormat, string> = { html: "html", markdown: "md", json: "json" };
+const MIME_TYPES: Record<ExportFormat, string> = {
+  html: "text/html",
+  markdown: "text/markdown",
+  json: "application/json",
+};
+
+const describeDeltas = (items: ItemDelta[], sign: "+" | "-") =>
+  items.map(item => `${sign}${item.quantity > 1 ? `${item.quantity} ` : ""}${item.name}`);
+
+// One line per change the turn made: HP, items gained, items lost
+const describeChanges = (turn: GameTurn): string[] => [
+  ...(turn.hpChange !== 0 ? [`${turn.hpChange > 0 ? "+" : ""}${turn.hpChange} HP`] : []),
+  ...describeDeltas(turn.inventoryAdded, "+"),
+  ...describeDeltas(turn.inventoryRemoved, "-"),
+];
+
+const describeRoll = (turn: GameTurn, t: Messages): string | undefined => {
+  const result = turn.checkResult;
+  if (!result) return undefined;
+  return `${t.attributes[result.skill]}: ${result.roll} + ${result.modifier} = ${result.total} / ${result.difficulty} · ${result.success ? t.game.success : t.game.failure}`;
+};
+
+const describeInventory = (inventory: Item[], t: Messages) =>
+  inventory.map(item => (item.quantity > 1 ? `${item.name} ×${item.quantity}` : item.name)).join(", ") || t.gameOver.none;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export const exportMarkdown = (run: StoryExport, t: Messages): string => {
+  const lines = [
+    `# ${run.theme}`,
+    "",
+    `**${run.character.name}**, ${run.character.archetype}`,
+    "",
+  ];
+
+  run.turns.forEach((turn, idx) => {
+    lines.push(`## ${t.chronicle.turn(idx + 1)}`, "");
+    if (turn.imageUrl) lines.push(`![${t.chronicle.sceneOfTurn(idx + 1)}](${turn.imageUrl})`, "");
+    lines.push(turn.text, "");
+    const changes = describeChanges(turn);
+    if (changes.length > 0) lines.push(`*${changes.join(" · ")}*`, "");
+    if (turn.chosenChoice) lines.push(`> ${turn.chosenBy ? `**${turn.chosenBy}:** ` : ""}${turn.chosenChoice.isCustom ? `*${turn.chosenChoice.text}*` : turn.chosenChoice.text}`, "");
+    const roll = describeRoll(turn, t);
+    if (roll) lines.push(`> ${roll}`, "");
+  });
+
+  lines.push("---", "", `**${t.endings[run.ending].title}**`, "", `**${t.storybook.finalHp}:** ${run.hp}`, "", `**${t.gameOver.finalItems}:** ${describeInventory(run.inventory, t)}`, "");
+  return lines.join("\n");
+};
+
+// A single file with the styles and images inline, readable offline
+export const exportHtml = (run: StoryExport, t: Messages): string => {
+  const turns = run.turns.map((turn, idx) => {
+    const changes = describeChanges(turn);
+    const roll = describeRoll(turn, t);
+    return `
+    <section>
+      <h2>${escapeHtml(t.chronicle.turn(idx + 1))}</h2>
+      ${turn.imageUrl ? `<img src="${escapeHtml(turn.imageUrl)}" alt="${escapeHtml(t.chronicle.sceneOfTurn(idx + 1))}">` : ""}
+      ${turn.text.split(/\n+/).map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join("\n      ")}
+      ${changes.length > 0 ? `<p class="changes">${changes.map(escapeHtml).join(" · ")}</p>` : ""}
+      ${turn.chosenChoice ? `<p class="choice${turn.chosenChoice.isCustom ? " custom" : ""}">&rarr; ${turn.chosenBy ? `<strong>${escapeHtml(turn.chosenBy)}:</strong> ` : ""}${escapeHtml(turn.chosenChoice.text)}</p>` : ""}
+      ${roll ? `<p class="roll">${escapeHtml(roll)}</p>` : ""}
+    </section>`;
+  }).join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="${run.language}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(run.theme)}</title>
+  <style>
+    body { background: #020617; color: #e2e8f0; font-family: Georgia, serif; max-width: 720px; margin: 0 auto; padding: 2rem 1rem; line-height: 1.7; }
+    h1, h2 { color: #a5b4fc; }
+    h2 { font-size: 0.9rem; text-transform: uppercase; letter-spacing: 0.15em; margin-top: 3rem; }
+    img { width: 100%; border-radius: 0.75rem; border: 1px solid #1e293b; }
+    .subtitle, .changes, .roll { color: #94a3b8; font-size: 0.9rem; }
+    .choice { color: #a5b4fc; }
+    .custom { color: #6ee7b7; font-style: italic; }
+    footer { margin-top: 3rem; padding-top: 1rem; border-top: 1px solid #1e293b; color: #94a3b8; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(run.theme)}</h1>
+  <p class="subtitle">${escapeHtml(run.character.name)}, ${escapeHtml(run.character.archetype)}</p>
+${turns}
+  <footer>
+    <h2>${escapeHtml(t.endings[run.ending].title)}</h2>
+    <p>${escapeHtml(t.storybook.finalHp)}: ${run.hp}</p>
+    <p>${escapeHtml(t.gameOver.finalItems)}: ${escapeHtml(describeInventory(run.inventory, t))}</p>
+  </footer>
+</body>
+</html>
+`;
+};
+
+// Without exportedAt the output depends only on the run, so it can be compared against fixtures
+export const exportJson = (run: StoryExport, exportedAt?: Date): string =>
+  JSON.stringify({ version: EXPORT_VERSION, ...(exportedAt && { exportedAt: exportedAt.toISOString() }), ...run }, null, 2);
+
+// Builds the file in memory and hands it to the browser as a download
+export const downloadStory = (run: StoryExport, format: ExportFormat, t: Messages) => {
+  const content = format === "html" ? exportHtml(run, t) : format === "markdown" ? exportMarkdown(run, t) : exportJson(run, new Date());
+  const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES[format] }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${slugify(run.theme)}.${EXTENSIONS[format]}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
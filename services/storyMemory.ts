@@ -0,0 +1,92 @@
+import { GameTurn, Language, StoryContext, StoryEngine, StoryEngineResponse, StoryFacts, StoryMemory, TurnRecap } from "../types";
+import { formatRelationships, updateFactions, updateNpcs } from "./relationships";
+
+// Turns always sent verbatim, however much has been summarized
+export const RECENT_TURNS = 4;
+
+// How many turns must fall out of the verbatim window before the summary is compressed again
+export const SUMMARY_BATCH = 4;
+
+export const createStoryMemory = (): StoryMemory => ({
+  summary: "",
+  summarizedTurns: 0,
+  facts: { characters: [], places: [], openQuests: [], goals: [], npcs: [], factions: [] },
+});
+
+const toRecap = (turn: GameTurn): TurnRecap => ({
+  text: turn.text,
+  choice: turn.chosenChoice?.text,
+  isCustomChoice: turn.chosenChoice?.isCustom,
+  actor: turn.chosenBy,
+});
+
+// Case-insensitive so "La Bruja" and "la bruja" are the same character
+const sameFact = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const addFacts = (known: string[], found: string[]): string[] => {
+  const merged = [...known];
+  found.forEach(fact => {
+    if (fact.trim() && !merged.some(existing => sameFact(existing, fact))) merged.push(fact.trim());
+  });
+  return merged;
+};
+
+export const mergeFacts = (facts: StoryFacts, response: StoryEngineResponse): StoryFacts => ({
+  characters: addFacts(facts.characters, response.newCharacters),
+  places: addFacts(facts.places, response.newPlaces),
+  openQuests: addFacts(facts.openQuests, response.questsOpened)
+    .filter(quest => !response.questsResolved.some(resolved => sameFact(resolved, quest))),
+  goals: [...facts.goals, ...response.goals.filter(goal => !facts.goals.some(known => sameFact(known.text, goal.text)))],
+  npcs: updateNpcs(facts.npcs, response.npcs),
+  factions: updateFactions(facts.factions, response.factions),
+});
+
+// Everything not yet summarized stays verbatim, so a pending compression never leaves a gap
+export const buildStoryContext = (memory: StoryMemory, history: GameTurn[]): StoryContext => {
+  const firstVerbatim = Math.min(memory.summarizedTurns, Math.max(0, history.length - RECENT_TURNS));
+  return {
+    summary: memory.summary,
+    recentTurns: history.slice(firstVerbatim).map(toRecap),
+    facts: memory.facts,
+  };
+};
+
+// Folds old turns into the summary once enough have piled up.
+// Resolves null when there is nothing to compress yet.
+export const compressStoryMemory = async (
+  engine: StoryEngine,
+  memory: StoryMemory,
+  history: GameTurn[],
+  language: Language,
+  signal?: AbortSignal
+): Promise<Pick<StoryMemory, "summary" | "summarizedTurns"> | null> => {
+  const end = history.length - RECENT_TURNS;
+  const pending = history.slice(memory.summarizedTurns, Math.max(memory.summarizedTurns, end));
+  if (pending.length < SUMMARY_BATCH) return null;
+
+  const summary = await engine.summarizeStory({
+    previousSummary: memory.summary,
+    turns: pending.map(toRecap),
+    language,
+    signal,
+  });
+  return { summary, summarizedTurns: end };
+};
+
+// Prompt-ready rendering of the context, shared by the text engines
+export const formatStoryContext = ({ summary, recentTurns, facts }: StoryContext): string => {
+  const list = (items: string[]) => items.join(", ") || "Ninguno";
+  const turns = recentTurns
+    .map((turn, idx) => `${idx + 1}. ${turn.text}${turn.choice ? `\n   -> ${turn.actor ?? "El jugador"} ${turn.isCustomChoice ? "intentó (acción libre)" : "eligió"}: "${turn.choice}"` : ""}`)
+    .join("\n");
+
+  return `
+    Resumen de la historia hasta ahora: ${summary || "La aventura acaba de empezar."}
+    Personajes conocidos: ${list(facts.characters)}
+    Lugares visitados: ${list(facts.places)}
+    Misiones abiertas: ${list(facts.openQuests)}
+    Objetivos de la partida: ${list(facts.goals.map(goal => `${goal.text} (final: ${goal.ending})`))}${formatRelationships(facts)}
+    Turnos recientes:
+${turns || "Ninguno"}
+  `;
+};
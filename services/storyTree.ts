@@ -0,0 +1,60 @@
+import { Choice, GameTurn, StoryNode, StoryTree } from "../types";
+import { randomId } from "./ids";
+
+export const createStoryTree = (): StoryTree => ({ nodes: {}, currentId: null });
+
+export const newNodeId = (): string => randomId();
+
+// Nodes from the opening turn down to the given one
+export const pathTo = (tree: StoryTree, id: string | null): StoryNode[] => {
+  const path: StoryNode[] = [];
+  for (let node = id ? tree.nodes[id] : undefined; node; node = node.parentId ? tree.nodes[node.parentId] : undefined) {
+    path.unshift(node);
+  }
+  return path;
+};
+
+// The played path as turns, each marked with the choice that led on from it
+export const activeHistory = (tree: StoryTree): GameTurn[] => {
+  const path = pathTo(tree, tree.currentId);
+  return path.map((node, idx) => {
+    const next = path[idx + 1];
+    return next ? { ...node.turn, chosenChoice: next.choice, checkResult: next.checkResult, chosenBy: next.actor } : node.turn;
+  });
+};
+
+// In the order they were explored
+export const childrenOf = (tree: StoryTree, id: string | null): StoryNode[] =>
+  Object.values(tree.nodes).filter(node => node.parentId === id);
+
+// A branch already played from this turn, so it can be revisited instead of written again.
+// Free-text actions are never the same twice.
+export const findExploredChild = (tree: StoryTree, id: string, choice: Choice): StoryNode | undefined =>
+  choice.isCustom ? undefined : childrenOf(tree, id).find(child => child.choice?.id === choice.id);
+
+// Adds a node and makes it the current one
+export const addNode = (tree: StoryTree, node: StoryNode): StoryTree => ({
+  nodes: { ...tree.nodes, [node.id]: node },
+  currentId: node.id,
+});
+
+export const updateTurn = (tree: StoryTree, id: string, patch: Partial<GameTurn>): StoryTree => {
+  const node = tree.nodes[id];
+  if (!node) return tree;
+  return { ...tree, nodes: { ...tree.nodes, [id]: { ...node, turn: { ...node.turn, ...patch } } } };
+};
+
+// Makes an earlier (or explored) node current, dropping any choice it was still waiting on
+export const moveTo = (tree: StoryTree, id: string): StoryTree => ({
+  ...updateTurn(tree, id, { chosenChoice: undefined, checkResult: undefined, chosenBy: undefined }),
+  currentId: id,
+});
+
+// How many turns two nodes' paths share from the opening
+export const sharedDepth = (tree: StoryTree, a: string | null, b: string | null): number => {
+  const pathA = pathTo(tree, a);
+  const pathB = pathTo(tree, b);
+  let depth = 0;
+  while (depth < pathA.length && depth < pathB.length && pathA[depth].id === pathB[depth].id) depth++;
+  return depth;
+};
@@ -0,0 +1,403 @@
+import {
+  Archetype, Choice, EndingKind, FactionUpdate, Goal, Item, ItemCategory, ItemEffects, ItemRemoval, NpcStance, NpcUpdate, SkillCheck,
+  StoryEngineResponse,
+} from "../types";
+import { StoryEngineError } from "./engineErrors";
+import { ATTRIBUTES, balanceAttributes, normalizeDifficulty } from "./character";
+import { ITEM_CATEGORIES, MAX_SKILL_BONUS, findItem, slugify } from "./inventory";
+import { ENGINE_ENDINGS, GOAL_ENDINGS } from "./endings";
+import { MAX_TRUST_CHANGE, NPC_STANCES } from "./relationships";
+
+export const REQUIRED_CHOICES = 4;
+export const MAX_HP_CHANGE = 100;
+
+export type ValidationIssueCode =
+  | "INVALID_JSON"
+  | "INVALID_FIELD"
+  | "MISSING_NARRATIVE"
+  | "INVALID_HP_CHANGE"
+  | "CHOICE_COUNT"
+  | "DUPLICATE_CHOICE_ID"
+  | "UNKNOWN_ITEM_REMOVED";
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  message: string;
+  repaired: boolean; // false means the response can't be used as is
+}
+
+// Thrown when the story engine returns something the game can't safely apply
+export class StoryValidationError extends StoryEngineError {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super("MALFORMED_OUTPUT", `Invalid story response: ${issues.filter(issue => !issue.repaired).map(issue => issue.message).join("; ")}`);
+    this.name = "StoryValidationError";
+    this.issues = issues;
+  }
+}
+
+export interface ValidationResult {
+  response: StoryEngineResponse;
+  issues: ValidationIssue[];
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const parseStoryJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new StoryValidationError([{ code: "INVALID_JSON", message: "Response is not valid JSON", repaired: false }]);
+  }
+};
+
+// Drops anything that isn't a non-empty string, trims and dedupes the rest
+const readStrings = (value: unknown, field: string, issues: ValidationIssue[]): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ code: "INVALID_FIELD", message: `${field} is not a list`, repaired: true });
+    return [];
+  }
+  const strings = value.filter((item): item is string => typeof item === "string" && item.trim() !== "").map(item => item.trim());
+  if (strings.length !== value.length) {
+    issues.push({ code: "INVALID_FIELD", message: `${field} contains empty or non-text entries`, repaired: true });
+  }
+  return [...new Set(strings)];
+};
+
+const readHpChange = (value: unknown, issues: ValidationIssue[]): number => {
+  const numeric = typeof value === "string" ? Number(value) : value;
+  if (typeof numeric !== "number" || !Number.isFinite(numeric)) {
+    issues.push({ code: "INVALID_HP_CHANGE", message: `hpChange ${JSON.stringify(value)} is not a number`, repaired: true });
+    return 0;
+  }
+  const clamped = Math.max(-MAX_HP_CHANGE, Math.min(MAX_HP_CHANGE, Math.round(numeric)));
+  if (clamped !== value) {
+    issues.push({ code: "INVALID_HP_CHANGE", message: `hpChange ${JSON.stringify(value)} normalized to ${clamped}`, repaired: true });
+  }
+  return clamped;
+};
+
+// A malformed check is dropped and the choice becomes a plain one
+const readCheck = (value: unknown, idx: number, issues: ValidationIssue[]): SkillCheck | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (
+    isRecord(value) &&
+    ATTRIBUTES.includes(value.skill as SkillCheck["skill"]) &&
+    typeof value.difficulty === "number" &&
+    Number.isFinite(value.difficulty)
+  ) {
+    return { skill: value.skill as SkillCheck["skill"], difficulty: normalizeDifficulty(value.difficulty) };
+  }
+  issues.push({ code: "INVALID_FIELD", message: `choice ${idx + 1} has an invalid check`, repaired: true });
+  return undefined;
+};
+
+// Keeps choices with text, gives every one a unique id
+const normalizeChoices = (value: unknown, issues: ValidationIssue[]): Choice[] => {
+  if (!Array.isArray(value)) {
+    issues.push({ code: "INVALID_FIELD", message: "choices is not a list", repaired: true });
+    return [];
+  }
+
+  const choices: Choice[] = [];
+  value.forEach((raw, idx) => {
+    if (!isRecord(raw) || typeof raw.text !== "string" || !raw.text.trim()) {
+      issues.push({ code: "INVALID_FIELD", message: `choice ${idx + 1} has no text`, repaired: true });
+      return;
+    }
+    let id = typeof raw.id === "string" && raw.id.trim() ? raw.id.trim() : `choice-${idx + 1}`;
+    if (choices.some(choice => choice.id === id)) {
+      issues.push({ code: "DUPLICATE_CHOICE_ID", message: `choice id "${id}" is repeated`, repaired: true });
+      let suffix = 2;
+      while (choices.some(choice => choice.id === `${id}-${suffix}`)) suffix++;
+      id = `${id}-${suffix}`;
+    }
+    const check = readCheck(raw.check, idx, issues);
+    choices.push(check ? { id, text: raw.text.trim(), check } : { id, text: raw.text.trim() });
+  });
+  return choices;
+};
+
+// Exactly REQUIRED_CHOICES while the game goes on. Extra ones are cut, missing ones can't be invented here.
+const checkChoiceCount = (choices: Choice[], isFinished: boolean, issues: ValidationIssue[]): Choice[] => {
+  if (isFinished) return choices;
+  if (choices.length > REQUIRED_CHOICES) {
+    issues.push({ code: "CHOICE_COUNT", message: `${choices.length} choices trimmed to ${REQUIRED_CHOICES}`, repaired: true });
+    return choices.slice(0, REQUIRED_CHOICES);
+  }
+  if (choices.length < REQUIRED_CHOICES) {
+    issues.push({ code: "CHOICE_COUNT", message: `expected ${REQUIRED_CHOICES} choices, got ${choices.length}`, repaired: false });
+  }
+  return choices;
+};
+
+const readQuantity = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) ? Math.max(1, Math.round(value)) : 1;
+
+const readEffects = (value: unknown): ItemEffects | undefined => {
+  if (!isRecord(value)) return undefined;
+  const effects: ItemEffects = {};
+  if (typeof value.heal === "number" && value.heal > 0) {
+    effects.heal = Math.min(MAX_HP_CHANGE, Math.round(value.heal));
+  }
+  const bonus = value.skillBonus;
+  if (isRecord(bonus) && ATTRIBUTES.includes(bonus.skill as SkillCheck["skill"]) && typeof bonus.amount === "number" && bonus.amount > 0) {
+    effects.skillBonus = { skill: bonus.skill as SkillCheck["skill"], amount: Math.min(MAX_SKILL_BONUS, Math.round(bonus.amount)) };
+  }
+  return effects.heal || effects.skillBonus ? effects : undefined;
+};
+
+// Anything other than an ending the story engine may pick means the story goes on
+const readEnding = (value: unknown, issues: ValidationIssue[]): EndingKind | null => {
+  if (value === undefined || value === null) return null;
+  if (ENGINE_ENDINGS.includes(value as EndingKind)) return value as EndingKind;
+  issues.push({ code: "INVALID_FIELD", message: `unknown ending ${JSON.stringify(value)}, the story goes on`, repaired: true });
+  return null;
+};
+
+const readGoals = (value: unknown, issues: ValidationIssue[]): Goal[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ code: "INVALID_FIELD", message: "goals is not a list", repaired: true });
+    return [];
+  }
+  const goals = value
+    .filter((raw): raw is Record<string, unknown> =>
+      isRecord(raw) && GOAL_ENDINGS.includes(raw.ending as Goal["ending"]) && typeof raw.text === "string" && raw.text.trim() !== "")
+    .map(raw => ({ ending: raw.ending as Goal["ending"], text: (raw.text as string).trim() }));
+  if (goals.length !== value.length) {
+    issues.push({ code: "INVALID_FIELD", message: "goals contains entries without text or a goal ending", repaired: true });
+  }
+  return goals;
+};
+
+// Trust and reputation changes are whole numbers within what one turn may move
+const readTrustChange = (value: unknown, field: string, issues: ValidationIssue[]): number => {
+  const numeric = typeof value === "string" ? Number(value) : value;
+  if (typeof numeric !== "number" || !Number.isFinite(numeric)) {
+    if (value !== undefined) issues.push({ code: "INVALID_FIELD", message: `${field} ${JSON.stringify(value)} is not a number`, repaired: true });
+    return 0;
+  }
+  const clamped = Math.max(-MAX_TRUST_CHANGE, Math.min(MAX_TRUST_CHANGE, Math.round(numeric)));
+  if (clamped !== value) issues.push({ code: "INVALID_FIELD", message: `${field} ${JSON.stringify(value)} normalized to ${clamped}`, repaired: true });
+  return clamped;
+};
+
+const readText = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+// NPCs without a name are dropped; an unknown stance is read as neutral
+const readNpcs = (value: unknown, issues: ValidationIssue[]): NpcUpdate[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ code: "INVALID_FIELD", message: "npcs is not a list", repaired: true });
+    return [];
+  }
+  const npcs: NpcUpdate[] = [];
+  value.forEach((raw, idx) => {
+    const name = isRecord(raw) ? readText(raw.name) : "";
+    if (!isRecord(raw) || !name) {
+      issues.push({ code: "INVALID_FIELD", message: `npcs entry ${idx + 1} has no name`, repaired: true });
+      return;
+    }
+    let stance = raw.stance as NpcStance;
+    if (!NPC_STANCES.includes(stance)) {
+      issues.push({ code: "INVALID_FIELD", message: `NPC "${name}" has unknown stance ${JSON.stringify(raw.stance)}`, repaired: true });
+      stance = "neutral";
+    }
+    npcs.push({
+      name,
+      description: readText(raw.description),
+      faction: readText(raw.faction),
+      stance,
+      trustChange: readTrustChange(raw.trustChange, `trustChange of "${name}"`, issues),
+    });
+  });
+  return npcs;
+};
+
+const readFactions = (value: unknown, issues: ValidationIssue[]): FactionUpdate[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ code: "INVALID_FIELD", message: "factions is not a list", repaired: true });
+    return [];
+  }
+  const factions: FactionUpdate[] = [];
+  value.forEach((raw, idx) => {
+    const name = isRecord(raw) ? readText(raw.name) : "";
+    if (!isRecord(raw) || !name) {
+      issues.push({ code: "INVALID_FIELD", message: `factions entry ${idx + 1} has no name`, repaired: true });
+      return;
+    }
+    factions.push({ name, reputationChange: readTrustChange(raw.reputationChange, `reputationChange of "${name}"`, issues) });
+  });
+  return factions;
+};
+
+// New items get a kebab-case id. An item the player already owns, by id or by name, keeps its id so it stacks.
+const readItems = (value: unknown, inventory: Item[], issues: ValidationIssue[]): Item[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ code: "INVALID_FIELD", message: "inventoryAdd is not a list", repaired: true });
+    return [];
+  }
+
+  const items: Item[] = [];
+  value.forEach((raw, idx) => {
+    if (!isRecord(raw) || typeof raw.name !== "string" || !raw.name.trim()) {
+      issues.push({ code: "INVALID_FIELD", message: `inventoryAdd entry ${idx + 1} has no name`, repaired: true });
+      return;
+    }
+    const name = raw.name.trim();
+    const rawId = typeof raw.id === "string" ? raw.id : "";
+    const owned = (rawId && findItem(inventory, rawId)) || findItem(inventory, name);
+    const id = owned?.id ?? slugify(rawId || name);
+
+    let category = raw.category as ItemCategory;
+    if (!ITEM_CATEGORIES.includes(category)) {
+      issues.push({ code: "INVALID_FIELD", message: `item "${name}" has unknown category ${JSON.stringify(raw.category)}`, repaired: true });
+      category = owned?.category ?? "quest";
+    }
+
+    const quantity = readQuantity(raw.quantity);
+    const same = items.find(item => item.id === id);
+    if (same) {
+      same.quantity += quantity;
+      return;
+    }
+
+    const effects = readEffects(raw.effects) ?? owned?.effects;
+    items.push({
+      id,
+      name: owned?.name ?? name,
+      description: typeof raw.description === "string" && raw.description.trim() ? raw.description.trim() : owned?.description ?? "",
+      category,
+      quantity,
+      ...(effects && { effects }),
+    });
+  });
+  return items;
+};
+
+// Removals must name items the player actually carries, and no more of them than owned
+const readRemovals = (value: unknown, inventory: Item[], issues: ValidationIssue[]): ItemRemoval[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ code: "INVALID_FIELD", message: "inventoryRemove is not a list", repaired: true });
+    return [];
+  }
+
+  const removals: ItemRemoval[] = [];
+  value.forEach(raw => {
+    // Plain names are accepted too, the model sometimes falls back to them
+    const key = typeof raw === "string" ? raw : isRecord(raw) && typeof raw.id === "string" ? raw.id : "";
+    const owned = key ? findItem(inventory, key) : undefined;
+    if (!owned) {
+      issues.push({ code: "UNKNOWN_ITEM_REMOVED", message: `cannot remove ${JSON.stringify(key || raw)}, the player doesn't have it`, repaired: true });
+      return;
+    }
+
+    const already = removals.find(removal => removal.id === owned.id);
+    const wanted = (already?.quantity ?? 0) + readQuantity(isRecord(raw) ? raw.quantity : undefined);
+    if (wanted > owned.quantity) {
+      issues.push({ code: "UNKNOWN_ITEM_REMOVED", message: `cannot remove ${wanted} of "${owned.id}", the player has ${owned.quantity}`, repaired: true });
+    }
+    if (already) {
+      already.quantity = Math.min(wanted, owned.quantity);
+    } else {
+      removals.push({ id: owned.id, quantity: Math.min(wanted, owned.quantity) });
+    }
+  });
+  return removals;
+};
+
+// Turns whatever the model returned into a response the game can apply, listing every fix made.
+// Issues with repaired === false mean the response must not be used.
+export const validateStoryResponse = (raw: unknown, inventory: Item[]): ValidationResult => {
+  const issues: ValidationIssue[] = [];
+  const data = isRecord(raw) ? raw : {};
+  if (!isRecord(raw)) {
+    issues.push({ code: "INVALID_FIELD", message: "response is not an object", repaired: false });
+  }
+
+  const narrative = typeof data.narrative === "string" ? data.narrative.trim() : "";
+  if (!narrative) {
+    issues.push({ code: "MISSING_NARRATIVE", message: "narrative is empty", repaired: false });
+  }
+
+  const ending = readEnding(data.ending, issues);
+  const choices = checkChoiceCount(normalizeChoices(data.choices, issues), ending !== null, issues);
+
+  const response: StoryEngineResponse = {
+    narrative,
+    hpChange: readHpChange(data.hpChange, issues),
+    inventoryAdd: readItems(data.inventoryAdd, inventory, issues),
+    inventoryRemove: readRemovals(data.inventoryRemove, inventory, issues),
+    visualDescription: typeof data.visualDescription === "string" ? data.visualDescription.trim() : "",
+    ending,
+    goals: readGoals(data.goals, issues),
+    choices,
+    newCharacters: readStrings(data.newCharacters, "newCharacters", issues),
+    newPlaces: readStrings(data.newPlaces, "newPlaces", issues),
+    questsOpened: readStrings(data.questsOpened, "questsOpened", issues),
+    questsResolved: readStrings(data.questsResolved, "questsResolved", issues),
+    beatReached: data.beatReached === true,
+    npcs: readNpcs(data.npcs, issues),
+    factions: readFactions(data.factions, issues),
+  };
+
+  return { response, issues };
+};
+
+// Items that don't come from the story engine, such as a campaign's starting inventory
+export const validateItems = (raw: unknown, issues: ValidationIssue[] = []): Item[] => readItems(raw, [], issues);
+
+// Keeps the archetypes that have a name, with attributes rebalanced to the point budget
+export const validateArchetypes = (raw: unknown): Archetype[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((item): item is Record<string, unknown> => isRecord(item) && typeof item.name === "string" && item.name.trim() !== "")
+    .map(item => ({
+      name: (item.name as string).trim(),
+      description: typeof item.description === "string" ? item.description.trim() : "",
+      attributes: balanceAttributes(isRecord(item.attributes) ? item.attributes : item),
+    }));
+};
+
+const hasBlockingIssues = (issues: ValidationIssue[]) => issues.some(issue => !issue.repaired);
+
+// Only a short choice list can be fixed by asking the model again
+const needsChoiceReask = (issues: ValidationIssue[]) =>
+  hasBlockingIssues(issues) && issues.filter(issue => !issue.repaired).every(issue => issue.code === "CHOICE_COUNT");
+
+// A choice list asked for on its own, or StoryValidationError if it isn't a full one
+export const ensureValidChoices = (raw: unknown): Choice[] => {
+  const issues: ValidationIssue[] = [];
+  const choices = checkChoiceCount(normalizeChoices(raw, issues), false, issues);
+  if (hasBlockingIssues(issues)) throw new StoryValidationError(issues);
+  if (issues.length > 0) console.warn("Choices repaired:", issues);
+  return choices;
+};
+
+// Validates a raw response and returns it ready to apply, or throws StoryValidationError.
+// reaskChoices, when given, is called once to get a fresh choice list if too few came back.
+export const ensureValidStory = async (
+  raw: unknown,
+  inventory: Item[],
+  reaskChoices?: (narrative: string) => Promise<unknown>
+): Promise<StoryEngineResponse> => {
+  let { response, issues } = validateStoryResponse(raw, inventory);
+
+  if (reaskChoices && needsChoiceReask(issues)) {
+    const reaskIssues: ValidationIssue[] = [];
+    const choices = checkChoiceCount(normalizeChoices(await reaskChoices(response.narrative), reaskIssues), false, reaskIssues);
+    issues = [...issues.filter(issue => issue.code !== "CHOICE_COUNT"), ...reaskIssues];
+    response = { ...response, choices };
+  }
+
+  if (hasBlockingIssues(issues)) throw new StoryValidationError(issues);
+  if (issues.length > 0) console.warn("Story response repaired:", issues);
+  return response;
+};
@@ -1,32 +1,411 @@
 export interface GameState {
   hp: number;
-  inventory: string[];
-  history: GameTurn[];
+  inventory: Item[];
+  tree: StoryTree; // Every explored turn; the played path runs from the root to tree.currentId
   isGameOver: boolean;
   theme: string;
+  memory: StoryMemory;
+  character: Character;
+  campaign?: Campaign; // Only for runs started from a campaign file
+  artStyle: ArtStyle;
+  difficulty: Difficulty;
+  party?: Party; // Only for party runs; character, hp and inventory are then the active player's
+}
+
+// Look shared by every illustration of a run
+export type ArtStyle = 'painterly' | 'comic' | 'watercolor' | 'pixel' | 'noir';
+
+// Preset picked at the start of a run (services/difficulty.ts)
+export type Difficulty = 'story' | 'normal' | 'hardcore';
+
+// How much of the story engine's HP changes and endings the game accepts
+export interface DifficultyRules {
+  startingHp: number;
+  maxDamage: number; // Most HP one turn can take away
+  maxHeal: number; // Most HP the story can give back in one turn; items heal on their own terms
+  canDie: boolean; // False: HP never drops below 1
+  suddenDeath: boolean; // The story may kill the character outright, before HP runs out
+  permadeath: boolean; // No rewinding and no manual saves
+}
+
+// How a party decides what to do: players take turns, or everyone votes on each turn
+export type PartyMode = 'rotation' | 'vote';
+
+// A player sharing the screen, with their own sheet
+export interface PartyMember {
+  character: Character;
+  hp: number; // 0 once they have fallen
+  inventory: Item[];
+}
+
+// Players of a party run (services/party.ts). The active player's sheet is mirrored in
+// GameState.character, hp and inventory, so the rest of the game plays whoever has the turn.
+export interface Party {
+  mode: PartyMode;
+  members: PartyMember[];
+  active: number; // Index of the player whose turn it is
+}
+
+// A vote cast on the current turn
+export interface PartyVote {
+  voter: number; // Member index
+  choice: Choice;
+}
+
+// What the story engine is told about the party
+export interface PartyBrief {
+  mode: PartyMode;
+  members: { name: string; archetype: string; hp: number }[];
+  next: string; // Name of the player the new segment is addressed to
+}
+
+// Language of the UI and of everything the story engine writes
+export type Language = 'es' | 'en';
+
+export type Attribute = 'strength' | 'agility' | 'wits';
+
+export type Attributes = Record<Attribute, number>;
+
+// Class template offered at character creation, fitted to the theme
+export interface Archetype {
+  name: string;
+  description: string;
+  attributes: Attributes;
+}
+
+export interface Character {
+  name: string;
+  archetype: string;
+  attributes: Attributes;
+}
+
+// A choice the game resolves with dice before the DM narrates it
+export interface SkillCheck {
+  skill: Attribute;
+  difficulty: number; // Target for d20 + attribute
+}
+
+export interface SkillCheckResult extends SkillCheck {
+  roll: number; // Natural d20
+  modifier: number;
+  total: number;
+  success: boolean;
+}
+
+export type ItemCategory = 'weapon' | 'consumable' | 'key' | 'quest';
+
+export interface ItemEffects {
+  heal?: number; // HP restored when a consumable is used
+  skillBonus?: { skill: Attribute; amount: number }; // Added to checks while carried
+}
+
+export interface Item {
+  id: string; // Stable kebab-case id, the story engine refers to items by it
+  name: string;
+  description: string;
+  category: ItemCategory;
+  quantity: number;
+  effects?: ItemEffects;
+}
+
+export interface ItemRemoval {
+  id: string;
+  quantity: number;
+}
+
+// How many of an item a turn added or took away
+export interface ItemDelta {
+  id: string;
+  name: string;
+  quantity: number;
+}
+
+// Something the player does with an item from the inventory
+export interface ItemAction {
+  kind: 'use' | 'inspect' | 'drop';
+  itemId: string;
+}
+
+// How a run ended. Only the player can abandon; the story engine decides the others.
+export type EndingKind = 'death' | 'victory' | 'escape' | 'abandoned';
+
+// An objective that ends the run with its ending once reached
+export interface Goal {
+  ending: Extract<EndingKind, 'victory' | 'escape'>;
+  text: string;
 }
 
 export interface GameTurn {
   text: string;
   imageUrl?: string;
+  imagePrompt?: string; // Full prompt the illustration was drawn from, kept to redraw it
   choices: Choice[];
+  chosenChoice?: Choice; // Set once the player acts on this turn
+  chosenBy?: string; // Party runs: name of the player who acted
+  hpChange: number; // Change actually applied after clamping, including item effects
+  inventoryAdded: ItemDelta[];
+  inventoryRemoved: ItemDelta[];
+  checkResult?: SkillCheckResult; // Roll made for chosenChoice, if it had a check
+  ending?: EndingKind; // Only on the turn that finished the run
+}
+
+// A turn in the tree of explored paths, with the state right after it
+export interface StoryNode {
+  id: string;
+  parentId: string | null; // null for the opening turn
+  choice?: Choice; // Taken on the parent turn to get here
+  checkResult?: SkillCheckResult;
+  turn: GameTurn; // turn.chosenChoice only marks a choice still waiting for its turn
+  hp: number;
+  inventory: Item[];
+  facts: StoryFacts;
+  beatIndex?: number; // Campaign beats completed so far, campaign runs only
+  actor?: string; // Party runs: the player who took choice
+  party?: Party; // Party runs: every player's sheet after this turn
+}
+
+export interface StoryTree {
+  nodes: Record<string, StoryNode>;
+  currentId: string | null;
 }
 
 export interface Choice {
   id: string;
   text: string;
+  isCustom?: boolean; // Written by the player instead of offered by the Dungeon Master
+  check?: SkillCheck;
+  itemAction?: ItemAction;
 }
 
 // Structured response expected from the Text AI
 export interface StoryEngineResponse {
   narrative: string; // The story text
   hpChange: number; // e.g., -10, +5, 0
-  inventoryAdd: string[]; // Items found
-  inventoryRemove: string[]; // Items used/lost
+  inventoryAdd: Item[]; // Items found. Reusing an owned id adds to its quantity.
+  inventoryRemove: ItemRemoval[]; // Items used/lost, by id
   visualDescription: string; // Prompt for the image generator
-  isGameOver: boolean;
+  ending: EndingKind | null; // null while the story goes on
+  goals: Goal[]; // Objectives for the run, usually set on the opening turn
   choices: {
     id: string;
     text: string;
+    check?: SkillCheck;
   }[];
+  newCharacters: string[]; // NPCs met for the first time
+  newPlaces: string[]; // Locations visited for the first time
+  questsOpened: string[];
+  questsResolved: string[];
+  beatReached: boolean; // The current campaign beat happened this turn
+  npcs: NpcUpdate[]; // NPCs the player dealt with this turn
+  factions: FactionUpdate[]; // Reputation won or lost with groups this turn
 }
+
+// How an NPC stands towards the player
+export type NpcStance = 'ally' | 'neutral' | 'hostile';
+
+// An NPC the player dealt with on a turn, as the story engine reports it
+export interface NpcUpdate {
+  name: string;
+  description: string; // Empty when there is nothing new to say about them
+  faction: string; // Empty when they belong to none
+  stance: NpcStance;
+  trustChange: number;
+}
+
+export interface FactionUpdate {
+  name: string;
+  reputationChange: number;
+}
+
+// Someone in the "Personajes" journal (services/relationships.ts)
+export interface Npc {
+  name: string;
+  description: string;
+  faction?: string;
+  stance: NpcStance;
+  trust: number; // -100 (sworn enemy) to 100 (would give their life for the player)
+  lastChange: number; // Trust won or lost on the latest turn, 0 if it did not deal with them
+}
+
+export interface FactionStanding {
+  name: string;
+  reputation: number; // -100 to 100
+  lastChange: number; // Same as Npc.lastChange
+}
+
+// Someone or somewhere the campaign author wants in the story
+export interface CampaignEntry {
+  name: string;
+  description: string;
+}
+
+// Hand-written adventure scaffold. The story engine improvises the turns between its beats.
+export interface Campaign {
+  title: string;
+  theme: string;
+  opening: StoryEngineResponse; // Fixed first scene, played as written
+  npcs: CampaignEntry[];
+  locations: CampaignEntry[];
+  beats: string[]; // Plot points that must happen, in order
+  winConditions: string[];
+  loseConditions: string[];
+  startingHp: number;
+  startingInventory: Item[];
+}
+
+// The campaign being played and how far along its beats the run is
+export interface CampaignProgress {
+  campaign: Campaign;
+  beatIndex: number;
+}
+
+// Structured facts the Dungeon Master must not forget
+export interface StoryFacts {
+  characters: string[];
+  places: string[];
+  openQuests: string[];
+  goals: Goal[];
+  npcs: Npc[]; // How the people met feel about the player
+  factions: FactionStanding[];
+}
+
+// Long-term memory of a run: a compressed summary of old turns plus the fact store.
+// Turns after summarizedTurns are still sent verbatim.
+export interface StoryMemory {
+  summary: string;
+  summarizedTurns: number;
+  facts: StoryFacts;
+}
+
+// A past turn as the story engine sees it
+export interface TurnRecap {
+  text: string;
+  choice?: string;
+  isCustomChoice?: boolean;
+  actor?: string; // Party runs: who made the choice
+}
+
+// Memory handed to the story engine for the next segment
+export interface StoryContext {
+  summary: string;
+  recentTurns: TurnRecap[];
+  facts: StoryFacts;
+}
+
+// Everything a story engine needs to write the next segment
+export interface StoryRequest {
+  theme: string;
+  language: Language;
+  character: Character;
+  hp: number;
+  inventory: Item[];
+  lastChoice: Choice | null; // null on the opening turn
+  checkResult?: SkillCheckResult; // Outcome of lastChoice's check, decided by the game
+  depth: number; // Turns on the played path before the requested one, 0 for the opening
+  context: StoryContext;
+  campaign?: CampaignProgress;
+  difficulty: Difficulty;
+  party?: PartyBrief; // Party runs: character, hp and inventory are the player who made lastChoice
+  signal?: AbortSignal;
+  onNarrative?: (narrative: string) => void; // Called with the narrative so far while it streams in
+}
+
+// Choices for a segment that came back without any (a party member fell and the others play on).
+// The rest describes the player who plays next, as for the segment that follows a choice.
+export interface ChoicesRequest extends Omit<StoryRequest, 'onNarrative'> {
+  narrative: string; // The segment the choices follow
+}
+
+// Old turns to fold into the running summary
+export interface SummaryRequest {
+  previousSummary: string;
+  turns: TurnRecap[];
+  language: Language;
+  signal?: AbortSignal;
+}
+
+// Provider that narrates the adventure (Gemini, offline script...).
+// Failures are reported as StoryEngineError (services/engineErrors.ts).
+export interface StoryEngine {
+  generateStorySegment(request: StoryRequest): Promise<StoryEngineResponse>;
+  suggestChoices(request: ChoicesRequest): Promise<Choice[]>;
+  summarizeStory(request: SummaryRequest): Promise<string>;
+  suggestArchetypes(theme: string, language: Language, signal?: AbortSignal): Promise<Archetype[]>;
+}
+
+// Provider that illustrates a scene. Resolves undefined when no image is available.
+export interface ImageEngine {
+  generateSceneImage(prompt: string, signal?: AbortSignal): Promise<string | undefined>;
+}
+
+// Pair of providers the app is started with
+export interface Engines {
+  story: StoryEngine;
+  image: ImageEngine;
+}
+
+// --- /api endpoints (server/api.ts), called by services/proxyEngine.ts ---
+
+// Story request as sent over the wire: no signal, no callback
+export type StoryApiRequest = Omit<StoryRequest, 'signal' | 'onNarrative'>;
+
+export type ChoicesApiRequest = Omit<ChoicesRequest, 'signal'>;
+
+// /api/story answers with one JSON event per line, so the narrative can be shown while it streams
+export type StoryStreamEvent =
+  | { type: 'narrative'; text: string }
+  | { type: 'response'; response: StoryEngineResponse }
+  | { type: 'error'; kind: string; message: string };
+
+// Body of every failed /api response
+export interface ApiErrorBody {
+  error: { kind: string; message: string };
+}
+
+// --- Networked sessions: rooms on the WebSocket relay (server/relay.ts), joined through services/session.ts ---
+
+// Whose story it is, as shown to the players in a room
+export interface SessionSnapshot {
+  theme: string;
+  language: Language;
+  character: Character; // The protagonist, or the player whose turn it is in a party
+  hp: number;
+  turns: GameTurn[]; // The played path, without illustrations
+  imageId?: string; // The current scene's illustration, uploaded to the room and fetched separately
+  isGameOver: boolean;
+  isWaiting: boolean; // The host's story engine is writing the next turn
+  acceptsChoices: boolean; // False in party runs, where the players at the host's screen take the turns
+}
+
+export interface SessionPlayer {
+  id: string;
+  name: string;
+  isHost: boolean;
+  connected: boolean; // False while their connection is down; the seat is kept for a while
+}
+
+export type SessionRole = 'host' | 'guest';
+
+export type RelayClientMessage =
+  | { type: 'create'; name: string }
+  | { type: 'join'; room: string; name: string }
+  | { type: 'resume'; room: string; token: string } // After a dropped connection or a page reload
+  | { type: 'state'; snapshot: SessionSnapshot } // Host only
+  | { type: 'narrative'; text: string } // Host only, the turn being written so far
+  | { type: 'choice'; choice: Choice } // Guests only, resolved by the host
+  | { type: 'leave' };
+
+export type RelayServerMessage =
+  | { type: 'joined'; room: string; playerId: string; token: string; role: SessionRole }
+  | { type: 'players'; players: SessionPlayer[] }
+  | { type: 'state'; snapshot: SessionSnapshot }
+  | { type: 'narrative'; text: string }
+  | { type: 'choice'; from: SessionPlayer; choice: Choice } // Sent to the host
+  | { type: 'closed'; reason: RelayCloseReason } // The room is gone
+  | { type: 'error'; code: RelayErrorCode; message: string };
+
+// Why a room closed: the host left, the host did not reconnect in time, or nobody played for a long while
+export type RelayCloseReason = 'hostLeft' | 'expired' | 'idle';
+
+// What a client can be told went wrong; fatal ones end the attempt to join
+export type RelayErrorCode = 'NO_ROOM' | 'ROOM_FULL' | 'TOO_MANY_ROOMS' | 'BAD_NAME' | 'BAD_TOKEN' | 'HOST_AWAY' | 'BAD_MESSAGE';
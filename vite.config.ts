@@ -1,6 +1,22 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import type { Server } from 'http';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiOptionsFromEnv, createApiMiddleware } from './server/api';
+import { attachRelay } from './server/relay';
+
+// Serves /api and the session relay from the dev and preview servers, so the key never reaches the browser
+const apiPlugin = (env: Record<string, string>): Plugin => ({
+    name: 'story-api',
+    configureServer: (server) => {
+      server.middlewares.use(createApiMiddleware(apiOptionsFromEnv(env)));
+      if (server.httpServer) server.middlewares.use(attachRelay(server.httpServer as Server).middleware);
+    },
+    configurePreviewServer: (server) => {
+      server.middlewares.use(createApiMiddleware(apiOptionsFromEnv(env)));
+      server.middlewares.use(attachRelay(server.httpServer as Server).middleware);
+    },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +25,10 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), apiPlugin(env)],
+      // Only the engine switch is inlined; GEMINI_API_KEY stays on the server
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.STORY_ENGINE': JSON.stringify(env.STORY_ENGINE ?? '')
       },
       resolve: {
         alias: {